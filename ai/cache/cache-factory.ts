@@ -0,0 +1,87 @@
+import { createMemoryVerdictCache } from "./memory-cache";
+import { createFsVerdictCache } from "./fs-cache";
+import { createSqliteVerdictCache } from "./sqlite-cache";
+import type { VerdictCache, VerdictCacheKeyParts } from "./types";
+
+/**
+ * Supported verdict cache backends
+ */
+export type VerdictCacheBackend = "memory" | "fs" | "sqlite" | "off";
+
+const SUPPORTED_BACKENDS: VerdictCacheBackend[] = ["memory", "fs", "sqlite", "off"];
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60; // One week
+
+// One cache per process, so every frame of every run shares it
+// Holds the promise, so frames that ask at the same time still get the same cache
+let cachedVerdictCache: { backend: VerdictCacheBackend; cache: Promise<VerdictCache | null> } | null = null;
+
+/**
+ * Get the configured cache backend from environment variables
+ * Defaults to 'memory' if not specified
+ */
+function getConfiguredBackend(): VerdictCacheBackend {
+  const backend = process.env.VERDICT_CACHE?.toLowerCase() as VerdictCacheBackend;
+
+  if (backend && !SUPPORTED_BACKENDS.includes(backend)) {
+    console.warn(`Invalid VERDICT_CACHE value: "${backend}". Defaulting to "memory".`);
+    return "memory";
+  }
+
+  return backend || "memory";
+}
+
+/**
+ * How long a cached verdict is reused, from VERDICT_CACHE_TTL_SECONDS (default one week)
+ */
+export function getVerdictCacheTtlMs(): number {
+  const seconds = Number(process.env.VERDICT_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Get the verdict cache shared by this process
+ * VERDICT_CACHE_PATH sets where the fs (directory) and sqlite (file) backends keep their entries
+ * @returns The cache, or null when VERDICT_CACHE=off
+ */
+export function getVerdictCache(): Promise<VerdictCache | null> {
+  const backend = getConfiguredBackend();
+  if (cachedVerdictCache?.backend !== backend) {
+    cachedVerdictCache = { backend, cache: createVerdictCache(backend) };
+  }
+  return cachedVerdictCache.cache;
+}
+
+async function createVerdictCache(backend: VerdictCacheBackend): Promise<VerdictCache | null> {
+  const os = await import("os");
+  const path = await import("path");
+  const location = process.env.VERDICT_CACHE_PATH;
+
+  let cache: VerdictCache | null;
+  switch (backend) {
+    case "memory":
+      cache = createMemoryVerdictCache();
+      break;
+    case "fs":
+      cache = createFsVerdictCache(location || path.join(os.tmpdir(), "verdict-cache"));
+      break;
+    case "sqlite":
+      cache = createSqliteVerdictCache(location || path.join(os.tmpdir(), "verdict-cache.sqlite"));
+      break;
+    case "off":
+      cache = null;
+      break;
+    default:
+      throw new Error(`Unsupported verdict cache backend: ${backend}`);
+  }
+
+  console.log(`[Verdict Cache] Using ${backend}`);
+  return cache;
+}
+
+/**
+ * Cache key for a frame verdict, e.g. "<sha256>:frame-rating@1#3fa9c2d1:gpt-5:default@2"
+ */
+export function verdictCacheKey(parts: VerdictCacheKeyParts): string {
+  return [parts.contentHash, parts.prompt, parts.model, parts.policy].join(":");
+}
@@ -0,0 +1,46 @@
+import type { CachedVerdict, VerdictCache } from "./types";
+
+/**
+ * Create a cache that keeps one JSON file per entry in a directory
+ * Survives restarts and is shared by every process on the machine.
+ * Writes go through a temporary file and a rename, so readers never see half an entry.
+ * @param directory - Where the entries are kept (created on first write)
+ */
+export function createFsVerdictCache(directory: string): VerdictCache {
+  const entryPath = async (key: string) => {
+    const { createHash } = await import("crypto");
+    const path = await import("path");
+    return path.join(directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  };
+
+  return {
+    name: "fs",
+    async get(key) {
+      const { readFile, unlink } = await import("fs/promises");
+      const filePath = await entryPath(key);
+
+      let entry: { key: string; verdict: CachedVerdict; expiresAt: number };
+      try {
+        entry = JSON.parse(await readFile(filePath, "utf8"));
+      } catch {
+        return null; // Missing or unreadable - treat as a miss
+      }
+
+      if (entry.key !== key) return null;
+      if (entry.expiresAt <= Date.now()) {
+        await unlink(filePath).catch(() => {});
+        return null;
+      }
+      return entry.verdict;
+    },
+    async set(key, verdict, ttlMs) {
+      const { mkdir, rename, writeFile } = await import("fs/promises");
+      const filePath = await entryPath(key);
+      const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(tmpPath, JSON.stringify({ key, verdict, expiresAt: Date.now() + ttlMs }));
+      await rename(tmpPath, filePath);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { CachedVerdict, VerdictCache } from "./types";
+
+/**
+ * Create a cache held in this process's memory - lost on restart
+ * Once full, the oldest entry is evicted first.
+ * @param maxEntries - Entries kept before evicting
+ */
+export function createMemoryVerdictCache(maxEntries = 10000): VerdictCache {
+  const entries = new Map<string, { verdict: CachedVerdict; expiresAt: number }>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.verdict;
+    },
+    async set(key, verdict, ttlMs) {
+      entries.delete(key); // Re-inserting moves the key to the back of the eviction order
+      entries.set(key, { verdict, expiresAt: Date.now() + ttlMs });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
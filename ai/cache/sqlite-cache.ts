@@ -0,0 +1,61 @@
+import type { CachedVerdict, VerdictCache } from "./types";
+
+// The parts of node:sqlite used here - the installed @types/node predates the module
+interface SqliteStatement {
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Create a cache backed by a SQLite file, using Node's built-in node:sqlite
+ * (unflagged from Node 22.13 / 23.4; Node 22.5-22.12 need --experimental-sqlite)
+ * Survives restarts and is shared by every process on the machine.
+ * Expired rows are skipped on read and purged whenever an entry is written.
+ * @param filePath - Database file (created if missing)
+ * @throws On first use when this Node version has no node:sqlite
+ */
+export function createSqliteVerdictCache(filePath: string): VerdictCache {
+  let database: Promise<SqliteDatabase> | null = null;
+
+  const open = () => {
+    database ??= (async () => {
+      // Kept out of the bundler's and type checker's reach - resolved by Node at runtime
+      const specifier = "node:sqlite";
+      const sqlite = await import(/* webpackIgnore: true */ specifier).catch(() => {
+        throw new Error(
+          `VERDICT_CACHE=sqlite needs Node 22.13 or later, or 22.5+ with --experimental-sqlite (running ${process.version})`
+        );
+      });
+
+      const db = new sqlite.DatabaseSync(filePath) as SqliteDatabase;
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS verdicts (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL)"
+      );
+      return db;
+    })();
+    return database;
+  };
+
+  return {
+    name: "sqlite",
+    async get(key) {
+      const db = await open();
+      const row = db
+        .prepare("SELECT value FROM verdicts WHERE key = ? AND expires_at > ?")
+        .get(key, Date.now()) as { value: string } | undefined;
+
+      return row ? (JSON.parse(row.value) as CachedVerdict) : null;
+    },
+    async set(key, verdict, ttlMs) {
+      const db = await open();
+      db.prepare("INSERT OR REPLACE INTO verdicts (key, value, expires_at) VALUES (?, ?, ?)")
+        .run(key, JSON.stringify(verdict), Date.now() + ttlMs);
+      db.prepare("DELETE FROM verdicts WHERE expires_at <= ?").run(Date.now());
+    },
+  };
+}
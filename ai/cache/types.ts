@@ -0,0 +1,32 @@
+import type { AIProvider } from "../providers/provider-factory";
+import type { ContentRating } from "../ocr/types";
+import type { VerdictProvenance } from "../prompts/registry";
+
+/**
+ * What goes into a cache key - a verdict is only reused when all four match
+ */
+export interface VerdictCacheKeyParts {
+  contentHash: string; // sha256 of the extracted JPEG bytes - perceptual hashes are for clustering only
+  prompt: string; // Rendered prompt reference, e.g. "frame-rating@1#3fa9c2d1"
+  model: string; // Model the call asked for, e.g. "gpt-5"
+  policy: string; // Rating policy reference, e.g. "default@1"
+}
+
+/**
+ * A frame verdict as stored in the cache
+ */
+export interface CachedVerdict {
+  result: ContentRating & { provider: AIProvider; provenance: VerdictProvenance };
+  costUsd: number; // What the original calls cost - counted as saved on every hit
+  createdAt: string;
+}
+
+/**
+ * Pluggable verdict cache backend
+ * Implementations drop entries once their TTL has passed and never throw on a miss
+ */
+export interface VerdictCache {
+  name: string;
+  get(key: string): Promise<CachedVerdict | null>;
+  set(key: string, verdict: CachedVerdict, ttlMs: number): Promise<void>;
+}
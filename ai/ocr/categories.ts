@@ -0,0 +1,232 @@
+import type { CategoryDetection, ContentAnalysis } from "./types";
+
+/**
+ * The rating a category carries by default ("none" = recorded, never rated)
+ * Rating policies can re-tier any category
+ */
+export type CategoryTier = "16+" | "18+" | "none";
+
+/**
+ * One moderation category
+ * Everything else - the output schema, the prompts, incident labels, display names,
+ * the reviewer blur settings - is generated from this list.
+ */
+export interface ModerationCategory {
+  key: string; // Field in the model's structured output; also used by policies and fixtures
+  tag: string; // Label stored on incidents, matched by redaction actions and blur settings
+  label: string; // Display name shown to reviewers
+  tier: CategoryTier;
+  description: string; // What to look for in a frame - also the schema description
+  textDescription?: string; // On-screen text variant, when it reads differently
+  speechDescription?: string; // Spoken dialogue variant, when it reads differently
+  blurrable?: boolean; // Reviewers can choose to always blur screenshots showing it
+}
+
+/**
+ * Category registry - add a category here and it is analyzed, rated and displayed
+ * Keep keys stable: they are stored in results and referenced by rating policies.
+ */
+export const MODERATION_CATEGORIES = [
+  // 16+
+  {
+    key: "cursing",
+    tag: "cursing",
+    label: "Cursing",
+    tier: "16+",
+    description: "Mild to moderate profanity, curse words",
+  },
+  {
+    key: "moderate_violence",
+    tag: "moderate_violence",
+    label: "Moderate Violence",
+    tier: "16+",
+    description: "Violence with blood visible, but NO gore or stabbing",
+    textDescription: "Threats or descriptions of violence, but NO gore or stabbing",
+    speechDescription: "Descriptions or threats of violence, but NO gore or stabbing",
+    blurrable: true,
+  },
+  {
+    key: "strong_language",
+    tag: "strong_language",
+    label: "Strong Language",
+    tier: "16+",
+    description: "Strong language and harsh words, but not extreme profanity",
+  },
+  {
+    key: "mild_sexual_content",
+    tag: "mild_sexual",
+    label: "Mild Sexual Content",
+    tier: "16+",
+    description: "Suggestive content, kissing, romantic scenes without explicit activity",
+    textDescription: "Suggestive text without explicit description",
+    speechDescription: "Suggestive or flirtatious dialogue without explicit description",
+    blurrable: true,
+  },
+  {
+    key: "weapons",
+    tag: "weapons",
+    label: "Weapons",
+    tier: "16+",
+    description: "Firearms, knives or other weapons shown prominently or brandished, outside of violence",
+    textDescription: "Text promoting, selling or explaining how to make weapons",
+    speechDescription: "Dialogue promoting, selling or explaining how to make weapons",
+  },
+  {
+    key: "gambling",
+    tag: "gambling",
+    label: "Gambling",
+    tier: "16+",
+    description: "Betting, casino games, slot machines or gambling promotions",
+    textDescription: "Betting odds, casino or gambling promotions and promo codes",
+    speechDescription: "Dialogue promoting betting, casinos or gambling sites",
+  },
+
+  // 18+
+  {
+    key: "nudity",
+    tag: "nudity",
+    label: "Nudity",
+    tier: "18+",
+    description: "Nudity or explicit sexual activities",
+    textDescription: "Explicit sexual text",
+    speechDescription: "Explicit sexual dialogue",
+    blurrable: true,
+  },
+  {
+    key: "drug_use",
+    tag: "drug_use",
+    label: "Drug Use",
+    tier: "18+",
+    description: "Drug use or substance abuse depicted",
+    textDescription: "Text describing or promoting drug use or substance abuse",
+    speechDescription: "Dialogue describing or promoting drug use or substance abuse",
+    blurrable: true,
+  },
+  {
+    key: "rape",
+    tag: "sexual_assault",
+    label: "Sexual Assault",
+    tier: "18+",
+    description: "Sexual assault or rape depicted",
+    textDescription: "Text describing sexual assault or rape",
+    speechDescription: "Descriptions of sexual assault or rape",
+    blurrable: true,
+  },
+  {
+    key: "murder",
+    tag: "murder",
+    label: "Murder",
+    tier: "18+",
+    description: "Murder or killing depicted",
+    textDescription: "Text describing murder or killing",
+    speechDescription: "Descriptions of murder or killing",
+    blurrable: true,
+  },
+  {
+    key: "stabbing",
+    tag: "stabbing",
+    label: "Stabbing",
+    tier: "18+",
+    description: "Stabbing or piercing violence",
+    textDescription: "Text describing stabbing or piercing violence",
+    speechDescription: "Descriptions of stabbing or piercing violence",
+    blurrable: true,
+  },
+  {
+    key: "gore",
+    tag: "gore",
+    label: "Gore",
+    tier: "18+",
+    description: "Gore, graphic violence, or extreme bodily harm",
+    textDescription: "Graphic descriptions of gore or extreme bodily harm",
+    speechDescription: "Graphic descriptions of gore or extreme bodily harm",
+    blurrable: true,
+  },
+  {
+    key: "extreme_profanity",
+    tag: "extreme_profanity",
+    label: "Extreme Profanity",
+    tier: "18+",
+    description: "Frequent use of extreme profanity",
+    textDescription: "Extreme profanity or slurs, including lightly censored spellings",
+    speechDescription: "Extreme profanity, slurs, or frequent strong swearing",
+  },
+  {
+    key: "disturbing_themes",
+    tag: "disturbing",
+    label: "Disturbing Themes",
+    tier: "18+",
+    description: "Disturbing themes such as abuse, torture, or psychological horror",
+    blurrable: true,
+  },
+  {
+    key: "self_harm",
+    tag: "self_harm",
+    label: "Self-Harm",
+    tier: "18+",
+    description: "Self-harm, suicide or its aftermath, or content encouraging either",
+    textDescription: "Text encouraging or describing self-harm or suicide",
+    speechDescription: "Dialogue encouraging or describing self-harm or suicide",
+    blurrable: true,
+  },
+  {
+    key: "hate_symbols",
+    tag: "hate_symbols",
+    label: "Hate Symbols",
+    tier: "18+",
+    description: "Hate symbols, extremist flags or gestures, or imagery attacking a protected group",
+    textDescription: "Hate speech, extremist slogans or coded hate references",
+    speechDescription: "Hate speech, extremist slogans or attacks on a protected group",
+    blurrable: true,
+  },
+
+  // Recorded only
+  {
+    key: "brand_logos",
+    tag: "brand_logos",
+    label: "Brand Logos",
+    tier: "none",
+    description: "Clearly visible brand logos or product placement",
+    textDescription: "Brand names or product promotions",
+    speechDescription: "Sponsor reads or product promotions",
+  },
+] as const satisfies readonly ModerationCategory[];
+
+export type CategoryKey = (typeof MODERATION_CATEGORIES)[number]["key"];
+
+/**
+ * Groups of the structured output, one per tier
+ * Categories sit in their default tier's group; empty groups are left out of the schema
+ */
+export const ANALYSIS_GROUPS = [
+  { group: "sixteenPlus", tier: "16+", description: "Content categories for 16+ rating" },
+  { group: "eighteenPlus", tier: "18+", description: "Content categories for 18+ rating" },
+  { group: "unrated", tier: "none", description: "Content categories recorded without affecting the rating" },
+] as const;
+
+export type AnalysisGroup = (typeof ANALYSIS_GROUPS)[number]["group"];
+
+const CATEGORIES_BY_KEY = new Map<string, ModerationCategory>(
+  MODERATION_CATEGORIES.map((category) => [category.key, category])
+);
+
+/**
+ * Look up a category by its output key
+ */
+export function getCategory(key: string): ModerationCategory | undefined {
+  return CATEGORIES_BY_KEY.get(key);
+}
+
+/**
+ * Categories whose default tier is the given one, in registry order
+ */
+export function categoriesInTier(tier: CategoryTier): ModerationCategory[] {
+  return MODERATION_CATEGORIES.filter((category) => category.tier === tier);
+}
+
+/**
+ * Every [key, detection] pair in an analysis, whichever group it sits in
+ */
+export function analysisDetections(analysis: ContentAnalysis): [string, CategoryDetection][] {
+  return ANALYSIS_GROUPS.flatMap(({ group }) => Object.entries(analysis[group] ?? {}));
+}
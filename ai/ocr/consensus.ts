@@ -0,0 +1,109 @@
+import type { CategoryDetection, CategoryDetections, ContentAnalysis, ContentRating } from "./types";
+import { ANALYSIS_GROUPS, type AnalysisGroup } from "./categories";
+import type { AIProvider } from "../providers/provider-factory";
+
+/**
+ * How per-provider analyses are merged into one
+ * - "max": a category counts if any provider detected it, at the highest confidence
+ * - "majority": a category counts if more than half of the providers detected it
+ * - "weighted": like majority, but each provider's vote counts by its weight
+ */
+export type ConsensusStrategy = "max" | "majority" | "weighted";
+
+export interface ConsensusOptions {
+  providers: AIProvider[]; // Two or more providers queried for every frame
+  strategy: ConsensusStrategy;
+  weights?: Partial<Record<AIProvider, number>>; // "weighted" only - missing providers weigh 1
+}
+
+/**
+ * One provider's verdict on a frame
+ */
+export interface ProviderVerdict {
+  provider: AIProvider;
+  model?: string; // Model id the provider reported (missing on older results)
+  rating: ContentRating["rating"];
+  analysis: ContentAnalysis;
+}
+
+export interface ConsensusResult {
+  strategy: ConsensusStrategy;
+  verdicts: ProviderVerdict[];
+  disagreement: boolean; // Providers returned different ratings - send to human review
+}
+
+function mergeDetections(
+  detections: { detection: CategoryDetection; weight: number }[],
+  strategy: ConsensusStrategy
+): CategoryDetection {
+  const detected = detections.filter(({ detection }) => detection.detected);
+
+  if (strategy === "max") {
+    const strongest = [...detected].sort((a, b) => b.detection.confidence - a.detection.confidence)[0];
+    return strongest ? strongest.detection : detections[0].detection;
+  }
+
+  // Plain majority ignores the weights; ties stay undetected
+  const weightOf = (entry: { weight: number }) => (strategy === "weighted" ? entry.weight : 1);
+  const totalWeight = detections.reduce((sum, entry) => sum + weightOf(entry), 0);
+  const voteWeight = detected.reduce((sum, entry) => sum + weightOf(entry), 0);
+
+  if (voteWeight / totalWeight <= 0.5) {
+    // Keep a dissenting provider's explanation
+    return detections.find(({ detection }) => !detection.detected)!.detection;
+  }
+
+  // Confidence is the (weighted) mean over the providers that agreed
+  const confidence = detected.reduce(
+    (sum, entry) => sum + entry.detection.confidence * weightOf(entry),
+    0
+  ) / voteWeight;
+
+  return {
+    detected: true,
+    confidence: Math.round(confidence * 10) / 10,
+    reason: detected.map(({ detection }) => detection.reason).join(" / "),
+  };
+}
+
+/**
+ * Merge several providers' analyses of the same frame into one
+ * @param verdicts - At least one verdict; weights default to 1
+ */
+export function mergeAnalyses(
+  verdicts: ProviderVerdict[],
+  options: Pick<ConsensusOptions, "strategy" | "weights">
+): ContentAnalysis {
+  const weightOf = (provider: AIProvider) => options.weights?.[provider] ?? 1;
+
+  const mergeGroup = (group: AnalysisGroup): CategoryDetections => {
+    const categories = Object.keys(verdicts[0].analysis[group] ?? {});
+
+    return Object.fromEntries(
+      categories.map((category) => [
+        category,
+        mergeDetections(
+          // A provider that left the category out is skipped rather than counted as a "no"
+          verdicts.flatMap((verdict) => {
+            const detection = verdict.analysis[group]?.[category];
+            return detection ? [{ detection, weight: weightOf(verdict.provider) }] : [];
+          }),
+          options.strategy
+        ),
+      ])
+    );
+  };
+
+  return Object.fromEntries(
+    ANALYSIS_GROUPS
+      .filter(({ group }) => verdicts[0].analysis[group] !== undefined)
+      .map(({ group }) => [group, mergeGroup(group)])
+  );
+}
+
+/**
+ * Whether the providers disagree on the frame's rating
+ */
+export function hasDisagreement(verdicts: ProviderVerdict[]): boolean {
+  return new Set(verdicts.map((verdict) => verdict.rating)).size > 1;
+}
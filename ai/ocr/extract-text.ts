@@ -0,0 +1,131 @@
+import { streamObject } from "ai";
+import {
+  contentAnalysisSchema,
+  textExtractionSchema,
+  type ContentRating,
+  type OnScreenTextResult,
+  type TextExtraction,
+} from "./types";
+import {
+  calculateRating,
+  finalObject,
+  highestRating,
+  toImageUrl,
+  type ModerationOptions,
+} from "./moderate-content";
+import { loadLexicon, matchLexicon, ratingForMatches } from "./lexicon";
+import {
+  getPrompt,
+  mergeProvenance,
+  renderedPromptRef,
+  type VerdictProvenance,
+} from "../prompts/registry";
+import { getVisionModel, withProviderFallback, type AIProvider } from "../providers/provider-factory";
+
+/**
+ * Reads the visible text out of an image using the configured AI provider
+ * @param imageInput - Image URL or Buffer
+ * @param options - Per-call overrides such as the provider
+ * @returns Text lines in reading order
+ */
+export async function extractText(
+  imageInput: string | Buffer | URL,
+  options: ModerationOptions = {}
+): Promise<TextExtraction & { provenance: VerdictProvenance }> {
+  const prompt = getPrompt("text-extraction", options.prompts);
+
+  // Same provider chain and circuit breakers as moderateContentSync
+  const { result } = await withProviderFallback(async (provider: AIProvider) => {
+    const stream = streamObject({
+      model: getVisionModel(provider, options.subject),
+      schema: textExtractionSchema,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt.text },
+            { type: "image", image: toImageUrl(imageInput) },
+          ],
+        },
+      ],
+    });
+
+    const extraction = await finalObject(stream, { onUsage: options.onUsage, provider, kind: "text_extraction", images: 1 });
+    return { ...extraction, provenance: { prompts: [renderedPromptRef(prompt)], models: [(await stream.response).modelId] } };
+  }, {
+    override: options.provider,
+    timeoutMs: 120000, // 2 minute timeout per provider
+  });
+
+  return result;
+}
+
+/**
+ * Rates a block of on-screen text against the content rating categories
+ * @param text - Text read off a frame
+ * @param options - Per-call overrides such as the provider
+ * @returns Content rating with summary
+ */
+export async function moderateText(
+  text: string,
+  options: ModerationOptions = {}
+): Promise<ContentRating & { provenance: VerdictProvenance }> {
+  const prompt = getPrompt("on-screen-text-rating", options.prompts);
+
+  const { result } = await withProviderFallback(async (provider: AIProvider) => {
+    const stream = streamObject({
+      model: getVisionModel(provider, options.subject),
+      schema: contentAnalysisSchema,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt.text },
+            { type: "text", text: `On-screen text:\n${text}` },
+          ],
+        },
+      ],
+    });
+
+    const analysis = await finalObject(stream, { onUsage: options.onUsage, provider, kind: "text_rating", images: 0 });
+    return {
+      ...calculateRating(analysis, options.policy),
+      provenance: { prompts: [renderedPromptRef(prompt)], models: [(await stream.response).modelId] },
+    };
+  }, {
+    override: options.provider,
+    timeoutMs: 120000, // 2 minute timeout per provider
+  });
+
+  return result;
+}
+
+/**
+ * Extracts the text visible in a frame, checks it against the lexicon and rates it
+ * @param imageInput - Image URL or Buffer
+ * @param options - Per-call overrides such as the provider
+ * @returns Extracted text, lexicon matches and the combined text rating
+ */
+export async function analyzeOnScreenText(
+  imageInput: string | Buffer | URL,
+  options: ModerationOptions = {}
+): Promise<OnScreenTextResult> {
+  const { lines, provenance } = await extractText(imageInput, options);
+  const text = lines.map((line) => line.text).join("\n").trim();
+
+  if (!text) {
+    return { text: "", lines: [], lexiconMatches: [], textRating: null, rating: "safe", provenance };
+  }
+
+  const lexiconMatches = matchLexicon(text, await loadLexicon());
+  const textRating = await moderateText(text, options);
+
+  return {
+    text,
+    lines,
+    lexiconMatches,
+    textRating,
+    rating: highestRating(ratingForMatches(lexiconMatches, options.policy), textRating.rating),
+    provenance: mergeProvenance(provenance, textRating.provenance),
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LEXICON, matchLexicon } from "./lexicon";
+
+const terms = (text: string) => matchLexicon(text, DEFAULT_LEXICON).map((match) => match.term);
+
+describe("matchLexicon", () => {
+  it("undoes leetspeak in words with letters", () => {
+    expect(terms("what the sh1t")).toEqual(["shit"]);
+    expect(terms("@ss")).toEqual(["ass"]);
+    expect(terms("a$$")).toEqual(["ass"]);
+  });
+
+  it("leaves all-digit tokens as numbers", () => {
+    expect(terms("Room 455")).toEqual([]);
+    expect(terms("Call 555-0100 or 1337")).toEqual([]);
+  });
+
+  it("treats ! at a word's edges as punctuation", () => {
+    expect(terms("hell!")).toEqual(["hell"]);
+  });
+
+  it("matches whole words only", () => {
+    expect(terms("first class")).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { LexiconMatch } from "./types";
+import { DEFAULT_RATING_POLICY, type RatingPolicy } from "../../lib/rating-policy";
+
+/**
+ * A word or phrase that always flags on-screen text
+ */
+export interface LexiconEntry {
+  term: string;
+  category: LexiconMatch["category"];
+}
+
+/**
+ * Built-in lexicon - deliberately small and limited to common profanity.
+ * Slurs and platform-specific terms belong in the file at PROFANITY_LEXICON_PATH,
+ * which is merged on top of (or, with "replaceDefaults": true, instead of) this list.
+ */
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  { term: "damn", category: "cursing" },
+  { term: "hell", category: "cursing" },
+  { term: "crap", category: "cursing" },
+  { term: "piss", category: "cursing" },
+  { term: "ass", category: "strong_language" },
+  { term: "bastard", category: "strong_language" },
+  { term: "bitch", category: "strong_language" },
+  { term: "dick", category: "strong_language" },
+  { term: "shit", category: "strong_language" },
+  { term: "fuck", category: "extreme_profanity" },
+  { term: "motherfucker", category: "extreme_profanity" },
+  { term: "cunt", category: "extreme_profanity" },
+];
+
+// Common character substitutions used to dodge filters ("sh1t", "@ss", "$hit")
+const SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+};
+
+let cachedLexicon: LexiconEntry[] | null = null;
+
+/**
+ * Load the lexicon, merging PROFANITY_LEXICON_PATH over the defaults
+ *
+ * The file is JSON shaped like:
+ *   { "replaceDefaults": false, "entries": [{ "term": "...", "category": "extreme_profanity" }] }
+ */
+export async function loadLexicon(): Promise<LexiconEntry[]> {
+  if (cachedLexicon) return cachedLexicon;
+
+  const lexiconPath = process.env.PROFANITY_LEXICON_PATH;
+  if (!lexiconPath) {
+    cachedLexicon = DEFAULT_LEXICON;
+    return cachedLexicon;
+  }
+
+  const { readFile } = await import("fs/promises");
+  const config = JSON.parse(await readFile(lexiconPath, "utf8")) as {
+    replaceDefaults?: boolean;
+    entries: LexiconEntry[];
+  };
+
+  cachedLexicon = config.replaceDefaults
+    ? config.entries
+    : [...DEFAULT_LEXICON, ...config.entries];
+
+  return cachedLexicon;
+}
+
+/**
+ * Normalize a word for matching: lowercase and undo leetspeak
+ * Only words with at least one letter are leetspeak - "455" or "1337" stay numbers, never "ass"
+ */
+function normalize(word: string): string {
+  const lower = word.toLowerCase();
+  if (!/\p{L}/u.test(lower)) return lower;
+
+  return lower
+    .split("")
+    .map((char) => SUBSTITUTIONS[char] ?? char)
+    .join("");
+}
+
+/**
+ * Forms a word can match as
+ * "!" at either edge is punctuation ("shit!"), never a substitution. "@" and "$" at an edge can be
+ * either ("@ss", "a$$", "@hell"), so the word is also tried with them trimmed.
+ */
+function wordForms(word: string): string[] {
+  const unpunctuated = word.replace(/^!+|!+$/g, "");
+  const trimmed = unpunctuated.replace(/^[@$!]+|[@$!]+$/g, "");
+
+  return trimmed === unpunctuated
+    ? [normalize(unpunctuated)]
+    : [normalize(unpunctuated), normalize(trimmed)];
+}
+
+/**
+ * Find lexicon terms in a block of text
+ * Terms match whole words (or whole word sequences for phrases), so "class" never matches "ass"
+ * @param text - Text read off a frame
+ * @param lexicon - Entries to match against
+ * @returns One match per distinct term found
+ */
+export function matchLexicon(text: string, lexicon: LexiconEntry[]): LexiconMatch[] {
+  // Split on anything that isn't a letter, digit or substitution character
+  const words = text.split(/[^\p{L}\p{N}@$!]+/u).filter(Boolean);
+  const normalizedWords = words.map(wordForms);
+
+  const matches: LexiconMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of lexicon) {
+    const termWords = entry.term.toLowerCase().split(/\s+/);
+
+    for (let i = 0; i + termWords.length <= normalizedWords.length; i++) {
+      const isMatch = termWords.every((termWord, j) => normalizedWords[i + j].includes(termWord));
+
+      if (isMatch && !seen.has(entry.term)) {
+        seen.add(entry.term);
+        matches.push({
+          term: entry.term,
+          category: entry.category,
+          matched: words.slice(i, i + termWords.length).join(" "),
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Rating implied by a set of lexicon matches - each match carries its category's tier
+ */
+export function ratingForMatches(
+  matches: LexiconMatch[],
+  policy: RatingPolicy = DEFAULT_RATING_POLICY
+): "safe" | "16+" | "18+" {
+  const tiers = matches.map((match) => policy.tiers[match.category]);
+  if (tiers.includes("18+")) return "18+";
+  if (tiers.includes("16+")) return "16+";
+  return "safe";
+}
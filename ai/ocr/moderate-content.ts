@@ -1,48 +1,145 @@
-import { streamObject } from "ai";
+import { streamObject, type LanguageModelUsage } from "ai";
 import {
   contentAnalysisSchema,
+  frameWindowModerationSchema,
   type ContentAnalysis,
   type ContentRating,
 } from "./types";
-import { matureContentRatingPrompt } from "../prompts/mature-content-rating";
-import { getVisionModel } from "../providers/provider-factory";
+import {
+  getPrompt,
+  renderedPromptRef,
+  type PromptSelection,
+  type VerdictProvenance,
+} from "../prompts/registry";
+import {
+  AllProvidersFailedError,
+  getVisionModel,
+  resolveProvider,
+  runOnProvider,
+  withProviderFallback,
+  type AIProvider,
+  type ScheduleRequest,
+} from "../providers/provider-factory";
+import { isProviderAvailable } from "../providers/circuit-breaker";
+import { recordTokenUsage } from "../providers/call-scheduler";
+import type { CallUsage, UsageKind } from "../providers/usage";
+import type { ModerationSubject } from "../providers/fixture-provider";
+import {
+  hasDisagreement,
+  mergeAnalyses,
+  type ConsensusOptions,
+  type ConsensusResult,
+  type ProviderVerdict,
+} from "./consensus";
+import { analysisDetections, getCategory } from "./categories";
+import {
+  DEFAULT_RATING_POLICY,
+  categoryThreshold,
+  type RatingPolicy,
+} from "../../lib/rating-policy";
+
+/**
+ * Per-call moderation options
+ */
+export interface ModerationOptions {
+  provider?: AIProvider; // Overrides AI_PROVIDER for this call
+  subject?: ModerationSubject; // Frame being analyzed, for the offline fixture provider
+  consensus?: ConsensusOptions; // Query several providers and merge their verdicts
+  policy?: RatingPolicy; // Rating policy applied to the analysis (defaults to the latest default policy)
+  onUsage?: (usage: CallUsage) => void; // Called with the token usage of every successful model call
+  prompts?: PromptSelection; // Prompt versions for this run (defaults to each prompt's default version)
+}
+
+/**
+ * Prepare an image input for the AI model
+ * @param imageInput - Image URL or Buffer
+ * @returns URL or data URL the AI SDK can send
+ */
+export function toImageUrl(imageInput: string | Buffer | URL): string | URL {
+  if (Buffer.isBuffer(imageInput)) {
+    // Convert Buffer to base64 data URL
+    // Note: This can cause memory issues for large buffers
+    // Prefer passing URLs directly when possible
+    const base64 = imageInput.toString("base64");
+    return `data:image/jpeg;base64,${base64}`;
+  }
+
+  // String input (URL or data URL) or already a URL object
+  return imageInput;
+}
+
+/**
+ * Wait for the final object of a streamObject call
+ * The object promise only settles once the stream has been read, so drain it first
+ * @param usage - Reports the call's tokens and latency to `onUsage`, when given
+ */
+export async function finalObject<T>(
+  stream: {
+    object: Promise<T>;
+    partialObjectStream: AsyncIterable<unknown>;
+    usage?: PromiseLike<LanguageModelUsage>;
+    response?: PromiseLike<{ modelId: string }>;
+  },
+  usage?: {
+    onUsage?: (usage: CallUsage) => void;
+    provider?: AIProvider;
+    kind: UsageKind;
+    images: number;
+  }
+): Promise<T> {
+  const startedAt = Date.now();
+
+  for await (const _partial of stream.partialObjectStream) {
+    // Partial objects are not used
+  }
+  const object = await stream.object;
+
+  // Real token counts feed the provider's tokens-per-minute budget
+  if (usage && stream.usage) {
+    const tokens = await stream.usage;
+    recordTokenUsage(resolveProvider(usage.provider), (tokens.inputTokens ?? 0) + (tokens.outputTokens ?? 0));
+  }
+
+  if (usage?.onUsage && stream.usage && stream.response) {
+    const [tokens, response] = await Promise.all([stream.usage, stream.response]);
+    usage.onUsage({
+      provider: resolveProvider(usage.provider),
+      model: response.modelId,
+      kind: usage.kind,
+      inputTokens: tokens.inputTokens ?? 0,
+      outputTokens: tokens.outputTokens ?? 0,
+      images: usage.images,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+
+  return object;
+}
 
 /**
  * Analyzes an image for mature content using the configured AI provider
  * @param imageInput - Image URL or Buffer
  * @param description - Optional description for additional context
+ * @param options - Per-call overrides such as the provider
  * @returns Stream of content analysis results
  */
 export async function moderateContent(
   imageInput: string | Buffer | URL,
-  description?: string
+  description?: string,
+  options: ModerationOptions = {}
 ) {
 
   // Prepare image for AI model
-  let imageUrl: string | URL;
+  const imageUrl = toImageUrl(imageInput);
 
-  if (Buffer.isBuffer(imageInput)) {
-    // Convert Buffer to base64 data URL
-    // Note: This can cause memory issues for large buffers
-    // Prefer passing URLs directly when possible
-    const base64 = imageInput.toString("base64");
-    imageUrl = `data:image/jpeg;base64,${base64}`;
-  } else if (typeof imageInput === "string") {
-    // String input - URL or data URL
-    imageUrl = imageInput;
-  } else {
-    // Already a URL object
-    imageUrl = imageInput;
-  }
-
-  // Build the prompt
-  let prompt = matureContentRatingPrompt;
+  // Build the prompt from the version selected for this run
+  let prompt = getPrompt("frame-rating", options.prompts).text;
   if (description) {
     prompt += `\n\nAdditional context: ${description}`;
   }
 
   const result = streamObject({
-    model: getVisionModel(),
+    model: getVisionModel(options.provider, options.subject),
     schema: contentAnalysisSchema,
     messages: [
       {
@@ -61,29 +158,22 @@ export async function moderateContent(
 /**
  * Calculates the final content rating based on the analysis
  * @param analysis - The content analysis from the AI model
+ * @param policy - Thresholds and tier mapping to apply
  * @returns Content rating with summary
  */
-export function calculateRating(analysis: ContentAnalysis): ContentRating {
-  const sixteenPlus = analysis.sixteenPlus;
-  const eighteenPlus = analysis.eighteenPlus;
-
-  // Count detections with confidence >= 3
+export function calculateRating(
+  analysis: ContentAnalysis,
+  policy: RatingPolicy = DEFAULT_RATING_POLICY
+): ContentRating {
+  // Count detections at or above each category's threshold, by the tier the policy gives them
   let sixteenPlusDetections = 0;
   let eighteenPlusDetections = 0;
   let highestConfidence = 0;
 
-  // Check 16+ categories
-  Object.values(sixteenPlus).forEach((category) => {
-    if (category.detected && category.confidence >= 3) {
-      sixteenPlusDetections++;
-    }
-    highestConfidence = Math.max(highestConfidence, category.confidence);
-  });
-
-  // Check 18+ categories
-  Object.values(eighteenPlus).forEach((category) => {
-    if (category.detected && category.confidence >= 3) {
-      eighteenPlusDetections++;
+  analysisDetections(analysis).forEach(([name, category]) => {
+    if (category.detected && category.confidence >= categoryThreshold(policy, name)) {
+      if (policy.tiers[name] === "18+") eighteenPlusDetections++;
+      if (policy.tiers[name] === "16+") sixteenPlusDetections++;
     }
     highestConfidence = Math.max(highestConfidence, category.confidence);
   });
@@ -91,11 +181,11 @@ export function calculateRating(analysis: ContentAnalysis): ContentRating {
   // Determine rating
   let rating: "safe" | "16+" | "18+" = "safe";
 
-  // If any 18+ content is detected with confidence >= 3, it's 18+
+  // If any category the policy rates 18+ counts, it's 18+
   if (eighteenPlusDetections > 0) {
     rating = "18+";
   }
-  // If any 16+ content is detected with confidence >= 3, it's 16+
+  // If any category the policy rates 16+ counts, it's 16+
   else if (sixteenPlusDetections > 0) {
     rating = "16+";
   }
@@ -111,28 +201,201 @@ export function calculateRating(analysis: ContentAnalysis): ContentRating {
   };
 }
 
+/**
+ * Pick the most restrictive of several ratings
+ */
+export function highestRating(
+  ...ratings: Array<"safe" | "16+" | "18+">
+): "safe" | "16+" | "18+" {
+  if (ratings.includes("18+")) return "18+";
+  if (ratings.includes("16+")) return "16+";
+  return "safe";
+}
+
+/**
+ * List the categories detected in an analysis, using the labels stored on incidents
+ * @param analysis - The content analysis from the AI model
+ * @returns Category labels, e.g. ["cursing", "gore"]
+ */
+export function listDetectedCategories(analysis: ContentAnalysis): string[] {
+  return analysisDetections(analysis)
+    .filter(([, detection]) => detection.detected)
+    .map(([key]) => getCategory(key)?.tag ?? key);
+}
+
 /**
  * Moderate content and return the final rating (non-streaming version)
- * Waits for the full analysis to complete before calculating rating
+ * Waits for the full analysis to complete before calculating rating.
+ * Walks the provider fallback chain, so `provider` says who actually produced the verdict.
+ * In consensus mode every listed provider is queried and `consensus` holds each verdict.
  */
 export async function moderateContentSync(
   imageInput: string | Buffer | URL,
-  description?: string
-): Promise<ContentRating> {
-  const stream = await moderateContent(imageInput, description);
-
-  // Wait for the final complete object with timeout
-  const timeoutMs = 120000; // 2 minute timeout
-  const objectPromise = stream.object;
-
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(
-      () => reject(new Error("AI API timeout after 2 minutes")),
-      timeoutMs
-    );
+  description?: string,
+  options: ModerationOptions = {}
+): Promise<ContentRating & { provider: AIProvider; provenance: VerdictProvenance; consensus?: ConsensusResult }> {
+  const prompt = renderedPromptRef(getPrompt("frame-rating", options.prompts));
+
+  const analyze = async (provider: AIProvider) => {
+    const stream = await moderateContent(imageInput, description, { ...options, provider });
+    const analysis = await finalObject(stream, { onUsage: options.onUsage, provider, kind: "frame", images: 1 });
+    return { analysis, model: (await stream.response).modelId };
+  };
+
+  if (options.consensus && options.consensus.providers.length >= 2) {
+    const result = await moderateByConsensus(analyze, options.consensus, options.policy);
+    return {
+      ...result,
+      provenance: { prompts: [prompt], models: result.consensus.verdicts.flatMap((verdict) => verdict.model ?? []) },
+    };
+  }
+
+  const { result: { analysis, model }, provider } = await withProviderFallback(analyze, {
+    override: options.provider,
+    timeoutMs: 120000, // 2 minute timeout per provider
+  });
+
+  return { ...calculateRating(analysis, options.policy), provider, provenance: { prompts: [prompt], models: [model] } };
+}
+
+/**
+ * Query every consensus provider in parallel and merge what comes back
+ * Providers that fail (or have an open circuit) are left out; with a single
+ * survivor its verdict stands alone, with none the call fails.
+ */
+async function moderateByConsensus(
+  analyze: (provider: AIProvider) => Promise<{ analysis: ContentAnalysis; model: string }>,
+  consensus: ConsensusOptions,
+  policy?: RatingPolicy
+): Promise<ContentRating & { provider: AIProvider; consensus: ConsensusResult }> {
+  const providers = consensus.providers.filter(isProviderAvailable);
+  const settled = await Promise.allSettled(
+    providers.map((provider) => runOnProvider(provider, analyze))
+  );
+
+  const verdicts: ProviderVerdict[] = [];
+  const failures: { provider: AIProvider; error: string }[] = [];
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      verdicts.push({
+        provider: providers[i],
+        model: outcome.value.model,
+        rating: calculateRating(outcome.value.analysis, policy).rating,
+        analysis: outcome.value.analysis,
+      });
+    } else {
+      const error = outcome.reason;
+      failures.push({ provider: providers[i], error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  if (verdicts.length === 0) throw new AllProvidersFailedError(failures);
+
+  return {
+    ...calculateRating(mergeAnalyses(verdicts, consensus), policy),
+    provider: verdicts[0].provider,
+    consensus: {
+      strategy: consensus.strategy,
+      verdicts,
+      disagreement: hasDisagreement(verdicts),
+    },
+  };
+}
+
+/**
+ * One frame of a window sent to moderateContentWindow
+ */
+export interface WindowFrame {
+  image: string | Buffer | URL;
+  timestamp: number; // Seconds - shown to the model next to the image
+  subject?: ModerationSubject; // Identifies the frame to the offline fixture provider
+}
+
+/**
+ * Analyze a window of consecutive frames in one structured-output call
+ * The model sees every frame with its timestamp and rates each in the context of the others.
+ */
+async function analyzeFrameWindow(
+  frames: WindowFrame[],
+  provider: AIProvider,
+  options: ModerationOptions
+): Promise<{ analyses: (ContentAnalysis | null)[]; model: string }> {
+  const stream = streamObject({
+    model: getVisionModel(provider, {
+      ...options.subject,
+      frames: frames.map((frame) => frame.subject ?? { timestamp: frame.timestamp }),
+    }),
+    schema: frameWindowModerationSchema,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: getPrompt("frame-sequence-rating", options.prompts).text },
+          ...frames.flatMap((frame, index) => [
+            { type: "text" as const, text: `Frame [${index}] at ${frame.timestamp.toFixed(1)}s` },
+            { type: "image" as const, image: toImageUrl(frame.image) },
+          ]),
+        ],
+      },
+    ],
   });
 
-  const object = await Promise.race([objectPromise, timeoutPromise]);
+  const { frames: analyzed } = await finalObject(stream, {
+    onUsage: options.onUsage,
+    provider,
+    kind: "window",
+    images: frames.length,
+  });
+
+  // Frames the model skipped (or indices it invented) get no verdict
+  const analyses = frames.map(
+    (_, index) => analyzed.find((entry) => entry.frameIndex === index)?.analysis ?? null
+  );
+  if (analyses.every((analysis) => analysis === null)) {
+    throw new Error(`${provider} returned no usable analyses for a window of ${frames.length} frames`);
+  }
+
+  return { analyses, model: (await stream.response).modelId };
+}
 
-  return calculateRating(object);
+/**
+ * Moderate consecutive frames in batched calls, one rating per frame (null if the model skipped it)
+ * Walks the provider fallback chain like moderateContentSync. Each provider gets windows of at
+ * most `windowSizes[provider]` frames, sent in parallel - so a window sized for a provider that
+ * takes many images still works after falling back to one that takes fewer. Each of those calls
+ * is scheduled in the provider's lane on its own.
+ */
+export async function moderateContentWindow(
+  frames: WindowFrame[],
+  options: ModerationOptions & { windowSizes?: Partial<Record<AIProvider, number>> } = {}
+): Promise<{ ratings: (ContentRating | null)[]; provider: AIProvider; provenance: VerdictProvenance }> {
+  const analyze = async (provider: AIProvider, schedule: ScheduleRequest) => {
+    const windowSize = Math.max(1, options.windowSizes?.[provider] ?? frames.length);
+    const windows: WindowFrame[][] = [];
+    for (let offset = 0; offset < frames.length; offset += windowSize) {
+      windows.push(frames.slice(offset, offset + windowSize));
+    }
+
+    // Each window is its own model request, so each takes a slot and counts against rpm/tpm
+    const results = await Promise.all(
+      windows.map((window) => schedule(() => analyzeFrameWindow(window, provider, options)))
+    );
+    return {
+      analyses: results.flatMap((result) => result.analyses),
+      models: [...new Set(results.map((result) => result.model))],
+    };
+  };
+
+  const { result: { analyses, models }, provider } = await withProviderFallback(analyze, {
+    override: options.provider,
+    timeoutMs: 180000, // 3 minute timeout per window - a window carries several images
+    perRequest: true,
+  });
+
+  return {
+    ratings: analyses.map((analysis) => (analysis ? calculateRating(analysis, options.policy) : null)),
+    provider,
+    provenance: { prompts: [renderedPromptRef(getPrompt("frame-sequence-rating", options.prompts))], models },
+  };
 }
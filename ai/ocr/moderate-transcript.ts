@@ -0,0 +1,76 @@
+import { streamObject } from "ai";
+import { transcriptModerationSchema, type ContentRating } from "./types";
+import { calculateRating, finalObject, type ModerationOptions } from "./moderate-content";
+import { formatTranscriptForPrompt } from "../prompts/spoken-content-rating";
+import { getPrompt, renderedPromptRef, type VerdictProvenance } from "../prompts/registry";
+import { getVisionModel, withProviderFallback, type AIProvider } from "../providers/provider-factory";
+import type { Transcript, TranscriptSegment } from "../transcription/types";
+import { isFlaggedRating } from "../../lib/rating-policy";
+
+// Segments per request - keeps prompts small while giving the model surrounding dialogue
+const SEGMENTS_PER_WINDOW = 60;
+
+/**
+ * A transcript segment whose rating the policy flags
+ */
+export interface TranscriptIncident {
+  segment: TranscriptSegment;
+  result: ContentRating;
+  provenance: VerdictProvenance; // Prompt version and model of the window that flagged it
+}
+
+/**
+ * Moderates a timestamped transcript against the content rating categories
+ * @param transcript - Transcript produced by a speech-to-text provider
+ * @param options - Per-call overrides such as the provider
+ * @returns Offending segments with their rating, in transcript order
+ */
+export async function moderateTranscript(
+  transcript: Transcript,
+  options: ModerationOptions = {}
+): Promise<TranscriptIncident[]> {
+  const incidents: TranscriptIncident[] = [];
+  const prompt = getPrompt("spoken-content-rating", options.prompts);
+
+  for (let offset = 0; offset < transcript.segments.length; offset += SEGMENTS_PER_WINDOW) {
+    const window = transcript.segments.slice(offset, offset + SEGMENTS_PER_WINDOW);
+
+    // Same provider chain and circuit breakers as moderateContentSync
+    const { result: { object, provenance } } = await withProviderFallback(async (provider: AIProvider) => {
+      const stream = streamObject({
+        model: getVisionModel(provider),
+        schema: transcriptModerationSchema,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt.text },
+              { type: "text", text: formatTranscriptForPrompt(window, offset) },
+            ],
+          },
+        ],
+      });
+
+      const object = await finalObject(stream, { onUsage: options.onUsage, provider, kind: "transcript", images: 0 });
+      return { object, provenance: { prompts: [renderedPromptRef(prompt)], models: [(await stream.response).modelId] } };
+    }, {
+      override: options.provider,
+      timeoutMs: 120000, // 2 minute timeout per provider
+    });
+
+    for (const flagged of object.flaggedSegments) {
+      const segment = transcript.segments[flagged.segmentIndex];
+      // Ignore indices the model invented outside this window
+      if (!segment || flagged.segmentIndex < offset || flagged.segmentIndex >= offset + window.length) {
+        continue;
+      }
+
+      const result = calculateRating(flagged.analysis, options.policy);
+      if (isFlaggedRating(result.rating, options.policy)) {
+        incidents.push({ segment, result, provenance });
+      }
+    }
+  }
+
+  return incidents.sort((a, b) => a.segment.start - b.segment.start);
+}
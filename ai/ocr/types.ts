@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ANALYSIS_GROUPS, categoriesInTier, type AnalysisGroup, type CategoryTier } from './categories';
+import type { VerdictProvenance } from '../prompts/registry';
 
 // Schema for individual category detection
 export const categoryDetectionSchema = z.object({
@@ -7,37 +9,65 @@ export const categoryDetectionSchema = z.object({
   reason: z.string().describe('Brief explanation (1-2 sentences) for why this category was scored this way'),
 });
 
-// Schema for 16+ content categories
-export const sixteenPlusSchema = z.object({
-  cursing: categoryDetectionSchema.describe('Cursing or mild profanity'),
-  moderate_violence: categoryDetectionSchema.describe('Moderate violence with blood, but no gore or stabbing'),
-  strong_language: categoryDetectionSchema.describe('Strong language, but not extreme profanity'),
-  mild_sexual_content: categoryDetectionSchema.describe('Suggestive content or kissing'),
+// Schema for one group of categories, generated from the registry in ./categories
+function categoryGroupSchema(tier: CategoryTier) {
+  return z.object(
+    Object.fromEntries(
+      categoriesInTier(tier).map((category) => [
+        category.key,
+        categoryDetectionSchema.describe(category.description),
+      ])
+    )
+  );
+}
+
+// Combined content analysis schema - one field per non-empty tier group
+export const contentAnalysisSchema = z.object(
+  Object.fromEntries(
+    ANALYSIS_GROUPS
+      .filter(({ tier }) => categoriesInTier(tier).length > 0)
+      .map(({ group, tier, description }) => [group, categoryGroupSchema(tier).describe(description)])
+  )
+);
+
+// Schema for moderating a window of consecutive frames in one call
+export const frameWindowModerationSchema = z.object({
+  frames: z.array(
+    z.object({
+      frameIndex: z.number().int().min(0).describe('Index of the frame, as labelled in the request'),
+      analysis: contentAnalysisSchema.describe('Content analysis for this frame, judged in the context of the sequence'),
+    })
+  ).describe('One entry per frame, in order'),
 });
 
-// Schema for 18+ content categories
-export const eighteenPlusSchema = z.object({
-  nudity: categoryDetectionSchema.describe('Nudity or explicit sexual activities'),
-  drug_use: categoryDetectionSchema.describe('Drug use or substance abuse'),
-  rape: categoryDetectionSchema.describe('Sexual assault or rape'),
-  murder: categoryDetectionSchema.describe('Murder or killing'),
-  stabbing: categoryDetectionSchema.describe('Stabbing or piercing violence'),
-  gore: categoryDetectionSchema.describe('Gore or graphic violence'),
-  extreme_profanity: categoryDetectionSchema.describe('Frequent extreme profanity'),
-  disturbing_themes: categoryDetectionSchema.describe('Disturbing themes such as abuse'),
+// Schema for moderating a transcript - only offending segments are returned
+export const transcriptModerationSchema = z.object({
+  flaggedSegments: z.array(
+    z.object({
+      segmentIndex: z.number().int().min(0).describe('Index of the offending transcript segment'),
+      analysis: contentAnalysisSchema.describe('Content analysis for this segment'),
+    })
+  ).describe('Segments containing 16+ or 18+ content; empty if the dialogue is clean'),
 });
 
-// Combined content analysis schema
-export const contentAnalysisSchema = z.object({
-  sixteenPlus: sixteenPlusSchema.describe('Content categories for 16+ rating'),
-  eighteenPlus: eighteenPlusSchema.describe('Content categories for 18+ rating'),
+// Schema for text read off a frame
+export const textExtractionSchema = z.object({
+  lines: z.array(
+    z.object({
+      text: z.string().describe('The text exactly as it appears'),
+      kind: z.enum(['caption', 'sign', 'overlay', 'other']).describe('Where the text appears'),
+    })
+  ).describe('Visible text in reading order; empty if there is none'),
 });
 
 // TypeScript types derived from schemas
 export type CategoryDetection = z.infer<typeof categoryDetectionSchema>;
-export type SixteenPlusCategories = z.infer<typeof sixteenPlusSchema>;
-export type EighteenPlusCategories = z.infer<typeof eighteenPlusSchema>;
-export type ContentAnalysis = z.infer<typeof contentAnalysisSchema>;
+export type CategoryDetections = z.infer<ReturnType<typeof categoryGroupSchema>>; // Keyed by category key
+// The schema's groups come from ANALYSIS_GROUPS; groups missing from older results (or with no categories) are simply absent
+export type ContentAnalysis = Partial<Record<AnalysisGroup, z.infer<typeof contentAnalysisSchema>[string]>>;
+export type TranscriptModeration = z.infer<typeof transcriptModerationSchema>;
+export type FrameWindowModeration = z.infer<typeof frameWindowModerationSchema>;
+export type TextExtraction = z.infer<typeof textExtractionSchema>;
 
 // Content rating result
 export interface ContentRating {
@@ -49,3 +79,20 @@ export interface ContentRating {
     highestConfidence: number;
   };
 }
+
+// A lexicon term found in on-screen text
+export interface LexiconMatch {
+  term: string;
+  category: 'cursing' | 'strong_language' | 'extreme_profanity';
+  matched: string; // The word as it appeared on screen
+}
+
+// Result of reading and rating the text visible in a frame
+export interface OnScreenTextResult {
+  text: string;
+  lines: TextExtraction['lines'];
+  lexiconMatches: LexiconMatch[];
+  textRating: ContentRating | null; // null when the frame has no text
+  rating: 'safe' | '16+' | '18+'; // Combined lexicon + text model rating
+  provenance: VerdictProvenance; // Prompts and models of the extraction and rating calls
+}
@@ -0,0 +1,36 @@
+import { categoriesInTier, type CategoryTier, type ModerationCategory } from "../ocr/categories";
+
+/**
+ * What the content under review is - picks each category's wording
+ */
+export type GuidelineMedium = "image" | "text" | "speech";
+
+const TIER_HEADINGS: Record<CategoryTier, string> = {
+  "16+": "### 16+ Content (Over 16 years old):",
+  "18+": "### 18+ Content (Over 18 years old):",
+  none: "### Also Record (does not affect the rating):",
+};
+
+function describe(category: ModerationCategory, medium: GuidelineMedium): string {
+  if (medium === "text") return category.textDescription ?? category.description;
+  if (medium === "speech") return category.speechDescription ?? category.description;
+  return category.description;
+}
+
+/**
+ * Render the "Rating Guidelines" section of a prompt from the category registry
+ * @param medium - Frame, on-screen text or spoken dialogue
+ */
+export function formatCategoryGuidelines(medium: GuidelineMedium): string {
+  const sections = (["16+", "18+", "none"] as const)
+    .map((tier) => ({ tier, categories: categoriesInTier(tier) }))
+    .filter(({ categories }) => categories.length > 0)
+    .map(({ tier, categories }) =>
+      [
+        TIER_HEADINGS[tier],
+        ...categories.map((category) => `- **${category.label}**: ${describe(category, medium)}`),
+      ].join("\n")
+    );
+
+  return ["## Rating Guidelines:", ...sections].join("\n\n");
+}
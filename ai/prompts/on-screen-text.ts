@@ -0,0 +1,41 @@
+import { formatCategoryGuidelines } from "./category-guidelines";
+
+/**
+ * Prompt for transcribing visible text out of a video frame
+ */
+export const textExtractionPrompt = `You are an OCR engine reading text out of a single video frame.
+
+Transcribe every piece of human-readable text visible in the image exactly as written, including:
+- Burned-in captions and subtitles
+- Signs, posters, clothing and product labels
+- Chat overlays, usernames, comments and on-screen UI text
+- Handwriting and graffiti, if legible
+
+## Instructions:
+
+1. Return one entry per line or block of text, in natural reading order
+2. Keep the original spelling, casing and censoring (e.g. "f***") - do not correct or translate
+3. Classify each entry's kind as caption, sign, overlay or other
+4. Skip text you cannot read with reasonable confidence - don't guess
+5. If the frame contains no readable text, return an empty list
+
+Provide your transcription in the structured format requested.`;
+
+/**
+ * Prompt for rating text that appears on screen
+ * Uses the same categories as the image prompt so text and frame verdicts are comparable
+ */
+export const onScreenTextRatingPrompt = `You are a content moderation AI rating text that appears on screen in a video (captions, signs, chat overlays).
+
+${formatCategoryGuidelines("text")}
+
+## Instructions:
+
+1. For each category, determine:
+   - **detected**: true if the content is present, false otherwise
+   - **confidence**: Your confidence level from 1 (low certainty) to 5 (high certainty)
+   - **reason**: A brief explanation (1-2 sentences), quoting the offending words where relevant
+2. Be thorough but fair - brand names, place names and ordinary words that merely contain a bad word are not profanity
+3. Consider context - a news caption quoting a slur is still a slur on screen
+
+Provide your analysis in the structured format requested.`;
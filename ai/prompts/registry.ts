@@ -0,0 +1,234 @@
+import {
+  frameSequenceRatingPrompt,
+  matureContentRatingPrompt,
+  matureContentRatingPromptV2,
+} from "./mature-content-rating";
+import { onScreenTextRatingPrompt, textExtractionPrompt } from "./on-screen-text";
+import { spokenContentRatingPrompt } from "./spoken-content-rating";
+
+/**
+ * Every prompt the moderation calls send, one id per call kind
+ */
+export const PROMPT_IDS = [
+  "frame-rating",
+  "frame-sequence-rating",
+  "text-extraction",
+  "on-screen-text-rating",
+  "spoken-content-rating",
+] as const;
+
+export type PromptId = (typeof PROMPT_IDS)[number];
+
+/**
+ * One published version of a prompt
+ */
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  description: string;
+  text: string;
+  experimental?: boolean; // Only used when pinned or drawn in a split - never the default
+}
+
+/**
+ * Prompt registry
+ * Never edit a published version's wording; add a new version so stored results stay traceable.
+ * (The "Rating Guidelines" section is generated from the category registry in every version,
+ * so verdicts and cache keys record renderedPromptRef - the version plus a digest of the text sent.)
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "frame-rating",
+    version: 1,
+    description: "Original single-frame rating prompt",
+    text: matureContentRatingPrompt,
+  },
+  {
+    id: "frame-rating",
+    version: 2,
+    description: "Describes the scene first and rates what is shown, with context in the reason",
+    text: matureContentRatingPromptV2,
+    experimental: true,
+  },
+  {
+    id: "frame-sequence-rating",
+    version: 1,
+    description: "Rates each frame of a batched window in the context of its neighbours",
+    text: frameSequenceRatingPrompt,
+  },
+  {
+    id: "text-extraction",
+    version: 1,
+    description: "OCR of captions, signs and overlays",
+    text: textExtractionPrompt,
+  },
+  {
+    id: "on-screen-text-rating",
+    version: 1,
+    description: "Rates text read off a frame",
+    text: onScreenTextRatingPrompt,
+  },
+  {
+    id: "spoken-content-rating",
+    version: 1,
+    description: "Rates windows of transcript segments",
+    text: spokenContentRatingPrompt,
+  },
+];
+
+/**
+ * Prompt version used for each prompt id in a run - ids left out use their default version
+ */
+export type PromptSelection = Partial<Record<PromptId, number>>;
+
+/**
+ * Stable reference stored with every verdict, e.g. "frame-rating@2"
+ */
+export function promptRef(prompt: Pick<PromptTemplate, "id" | "version">): string {
+  return `${prompt.id}@${prompt.version}`;
+}
+
+/**
+ * 32-bit FNV-1a digest of a prompt's text, as 8 hex characters
+ * Pure JS - the registry is imported by client code too
+ */
+function promptDigest(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Reference to the exact text a call sent, e.g. "frame-rating@2#3fa9c2d1"
+ * The digest changes whenever the category registry changes the generated guidelines,
+ * even though the prompt's version does not.
+ */
+export function renderedPromptRef(prompt: Pick<PromptTemplate, "id" | "version" | "text">): string {
+  return `${promptRef(prompt)}#${promptDigest(prompt.text)}`;
+}
+
+/**
+ * Published versions of a prompt, oldest first
+ */
+export function promptVersions(id: PromptId): number[] {
+  return PROMPT_TEMPLATES
+    .filter((template) => template.id === id)
+    .map((template) => template.version)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * The version used when an upload doesn't ask for one: the latest non-experimental version
+ */
+export function defaultPromptVersion(id: PromptId): number {
+  return Math.max(
+    ...PROMPT_TEMPLATES
+      .filter((template) => template.id === id && !template.experimental)
+      .map((template) => template.version)
+  );
+}
+
+/**
+ * Look up the prompt a call should send
+ * @param selection - Versions chosen for the run; falls back to the default version
+ * @throws When the selection names a version that does not exist
+ */
+export function getPrompt(id: PromptId, selection: PromptSelection = {}): PromptTemplate {
+  const version = selection[id] ?? defaultPromptVersion(id);
+  const template = PROMPT_TEMPLATES.find((entry) => entry.id === id && entry.version === version);
+
+  if (!template) throw new Error(`Unknown prompt version ${id}@${version}`);
+  return template;
+}
+
+/**
+ * Which prompt versions and models produced a verdict
+ */
+export interface VerdictProvenance {
+  prompts: string[]; // Rendered prompt references, e.g. ["frame-rating@2#3fa9c2d1", "on-screen-text-rating@1#09b1e4c7"]
+  models: string[]; // Model ids reported by the providers, e.g. ["gpt-5-2025-08-07"]
+}
+
+/**
+ * Combine the provenance of the calls behind one verdict, without duplicates
+ */
+export function mergeProvenance(...sources: (VerdictProvenance | null | undefined)[]): VerdictProvenance {
+  return {
+    prompts: [...new Set(sources.flatMap((source) => source?.prompts ?? []))],
+    models: [...new Set(sources.flatMap((source) => source?.models ?? []))],
+  };
+}
+
+/**
+ * How an upload asks for a prompt: a pinned version, or weights to draw a version from
+ */
+export type PromptRequest = number | { split: Record<string, number> };
+
+/**
+ * The prompt versions an upload runs with, and which of them were drawn from a split
+ */
+export interface PromptAssignment {
+  versions: Record<PromptId, number>;
+  split: PromptId[]; // Prompts assigned by an A/B split rather than pinned or defaulted
+}
+
+/**
+ * Every prompt at its default version - what a run gets when nothing is pinned or split
+ */
+export const DEFAULT_PROMPT_ASSIGNMENT: PromptAssignment = {
+  versions: Object.fromEntries(PROMPT_IDS.map((id) => [id, defaultPromptVersion(id)])) as Record<PromptId, number>,
+  split: [],
+};
+
+/**
+ * Resolve an upload's prompt requests to one version per prompt
+ * Splits draw once per upload, so every call in the run uses the same variant.
+ * @param random - Source of randomness in [0, 1), for reproducible assignment
+ * @returns The assignment, or the first request naming an unknown version
+ */
+export function resolvePromptAssignment(
+  requests: Partial<Record<PromptId, PromptRequest>>,
+  random: () => number = Math.random
+): { assignment: PromptAssignment } | { error: string } {
+  const versions = {} as Record<PromptId, number>;
+  const split: PromptId[] = [];
+
+  for (const id of PROMPT_IDS) {
+    const request = requests[id];
+    const available = promptVersions(id);
+
+    if (request === undefined) {
+      versions[id] = defaultPromptVersion(id);
+      continue;
+    }
+
+    if (typeof request === "number") {
+      if (!available.includes(request)) {
+        return { error: `Unknown prompt version ${id}@${request} (available: ${available.join(", ")})` };
+      }
+      versions[id] = request;
+      continue;
+    }
+
+    const weights = Object.entries(request.split)
+      .map(([version, weight]) => ({ version: Number(version), weight }))
+      .filter(({ weight }) => weight > 0);
+    const unknown = weights.find(({ version }) => !available.includes(version));
+    if (unknown) {
+      return { error: `Unknown prompt version ${id}@${unknown.version} (available: ${available.join(", ")})` };
+    }
+    if (weights.length === 0) {
+      return { error: `Prompt split for ${id} needs at least one version with a positive weight` };
+    }
+
+    const totalWeight = weights.reduce((sum, { weight }) => sum + weight, 0);
+    let draw = random() * totalWeight;
+    versions[id] = (weights.find(({ weight }) => (draw -= weight) < 0) ?? weights[weights.length - 1]).version;
+    split.push(id);
+  }
+
+  return { assignment: { versions, split } };
+}
@@ -0,0 +1,41 @@
+import type { TranscriptSegment } from "../transcription/types";
+import { formatCategoryGuidelines } from "./category-guidelines";
+
+/**
+ * System prompt for rating a video's spoken dialogue
+ * Uses the same categories as the image prompt so text and frame incidents are comparable
+ */
+export const spokenContentRatingPrompt = `You are a content moderation AI analyzing the spoken dialogue of a video for age-appropriate content ratings.
+
+You will receive a transcript split into numbered segments, each with its start and end time in seconds.
+
+${formatCategoryGuidelines("speech")}
+
+## Instructions:
+
+1. Read every segment and judge it in the context of the surrounding dialogue
+2. Only return segments that contain 16+ or 18+ content - omit clean segments entirely
+3. For each returned segment, give its segmentIndex and a full analysis where every category has:
+   - **detected**: true if the content is present in that segment, false otherwise
+   - **confidence**: Your confidence level from 1 (low certainty) to 5 (high certainty)
+   - **reason**: A brief explanation (1-2 sentences), quoting the offending words where relevant
+4. Be thorough but fair - don't over-flag content. Song lyrics and quoted speech still count.
+5. Transcription errors happen - don't flag a segment on a single ambiguous word
+
+Provide your analysis in the structured format requested.`;
+
+/**
+ * Render transcript segments as numbered, timestamped lines for the prompt
+ * @param segments - Segments to include
+ * @param indexOffset - Index of the first segment within the full transcript
+ */
+export const formatTranscriptForPrompt = (
+  segments: TranscriptSegment[],
+  indexOffset = 0
+) =>
+  segments
+    .map(
+      (segment, index) =>
+        `[${index + indexOffset}] (${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s) ${segment.text}`
+    )
+    .join("\n");
@@ -0,0 +1,240 @@
+import type { AIProvider } from './provider-factory';
+
+/**
+ * Limits for one provider's lane
+ * Concurrency adapts between min and max; rpm/tpm are hard budgets over a rolling minute
+ * Every limit applies per server instance - with N instances the provider sees up to N times these
+ * budgets, so set rpm/tpm to the account quota divided by the number of instances
+ */
+export interface RateLimits {
+  initialConcurrency: number;
+  minConcurrency: number;
+  maxConcurrency: number;
+  latencyTargetMs: number; // Successful calls slower than this shrink the window instead of growing it
+  rpm?: number; // Requests per minute
+  tpm?: number; // Input + output tokens per minute
+  estimatedTokensPerCall: number; // Reserved per call until real usage comes in
+}
+
+/**
+ * Defaults for every provider - override them per provider with AI_RATE_LIMITS_PATH
+ */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  initialConcurrency: 4,
+  minConcurrency: 1,
+  maxConcurrency: 64,
+  latencyTargetMs: 30_000,
+  estimatedTokensPerCall: 1_000,
+};
+
+const WINDOW_MS = 60_000;
+const DECREASE_FACTOR = 0.5; // On a 429
+const LATENCY_DECREASE_FACTOR = 0.9; // On a success slower than the latency target
+
+interface Lane {
+  limits: RateLimits;
+  concurrency: number;
+  inFlight: number;
+  queue: (() => void)[];
+  blockedUntil: number;
+  lastDecreaseAt: number;
+  requests: number[]; // Grant times within the window
+  tokens: { at: number; tokens: number }[]; // Reservations and corrections within the window
+  averageTokens: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Per process - runs whose steps execute on this instance share the same lanes; other instances keep their own
+// Nothing is coordinated across instances: each enforces the full configured budgets on its own
+const lanes = new Map<AIProvider, Lane>();
+
+let cachedLimits: Partial<Record<AIProvider, Partial<RateLimits>>> | null = null;
+
+/**
+ * Load per-provider overrides from AI_RATE_LIMITS_PATH
+ *
+ * The file is JSON shaped like:
+ *   { "gemini": { "rpm": 15, "tpm": 250000, "maxConcurrency": 4 }, "openai": { "rpm": 10000, "maxConcurrency": 128 } }
+ */
+async function loadRateLimits(): Promise<Partial<Record<AIProvider, Partial<RateLimits>>>> {
+  if (cachedLimits) return cachedLimits;
+
+  const limitsPath = process.env.AI_RATE_LIMITS_PATH;
+  if (!limitsPath) {
+    cachedLimits = {};
+    return cachedLimits;
+  }
+
+  const { readFile } = await import('fs/promises');
+  cachedLimits = JSON.parse(await readFile(limitsPath, 'utf8'));
+  return cachedLimits ?? {};
+}
+
+async function getLane(provider: AIProvider): Promise<Lane> {
+  const existing = lanes.get(provider);
+  if (existing) return existing;
+
+  const limits = { ...DEFAULT_RATE_LIMITS, ...(await loadRateLimits())[provider] };
+  const lane = lanes.get(provider) ?? {
+    limits,
+    concurrency: Math.min(Math.max(limits.initialConcurrency, limits.minConcurrency), limits.maxConcurrency),
+    inFlight: 0,
+    queue: [],
+    blockedUntil: 0,
+    lastDecreaseAt: 0,
+    requests: [],
+    tokens: [],
+    averageTokens: limits.estimatedTokensPerCall,
+    timer: null,
+  };
+  lanes.set(provider, lane);
+  return lane;
+}
+
+function pruneWindow(lane: Lane, now: number): void {
+  while (lane.requests.length > 0 && lane.requests[0] <= now - WINDOW_MS) lane.requests.shift();
+  while (lane.tokens.length > 0 && lane.tokens[0].at <= now - WINDOW_MS) lane.tokens.shift();
+}
+
+function tokensInWindow(lane: Lane): number {
+  return Math.max(0, lane.tokens.reduce((sum, entry) => sum + entry.tokens, 0));
+}
+
+/**
+ * When the next call may start, or 0 if it may start now
+ * Budgets always let one call through on an empty window, so an oversized estimate cannot stall a lane
+ */
+function nextStartAt(lane: Lane, now: number): number {
+  if (lane.blockedUntil > now) return lane.blockedUntil;
+
+  const { rpm, tpm } = lane.limits;
+  if (rpm && lane.requests.length >= rpm) return lane.requests[0] + WINDOW_MS;
+  if (tpm && lane.tokens.length > 0 && tokensInWindow(lane) + lane.averageTokens > tpm) {
+    return lane.tokens[0].at + WINDOW_MS;
+  }
+  return 0;
+}
+
+// Start as many queued calls as the window and budgets allow, and wake up when more may start
+function pump(provider: AIProvider, lane: Lane): void {
+  while (lane.queue.length > 0 && lane.inFlight < Math.floor(lane.concurrency)) {
+    const now = Date.now();
+    pruneWindow(lane, now);
+
+    const startAt = nextStartAt(lane, now);
+    if (startAt > now) {
+      if (!lane.timer) {
+        lane.timer = setTimeout(() => {
+          lane.timer = null;
+          pump(provider, lane);
+        }, startAt - now);
+      }
+      return;
+    }
+
+    lane.inFlight++;
+    lane.requests.push(now);
+    lane.tokens.push({ at: now, tokens: lane.averageTokens });
+    lane.queue.shift()?.();
+  }
+}
+
+/**
+ * Find a rate-limit response in an AI SDK error (retried calls wrap it in `lastError`)
+ * @returns The wait the provider asked for, or null when the error is not a 429
+ */
+export function rateLimitOf(error: unknown, depth = 0): { retryAfterMs?: number } | null {
+  if (!error || typeof error !== 'object' || depth > 3) return null;
+
+  const { statusCode, responseHeaders, lastError, cause } = error as {
+    statusCode?: number;
+    responseHeaders?: Record<string, string>;
+    lastError?: unknown;
+    cause?: unknown;
+  };
+
+  if (statusCode === 429) {
+    const retryAfterMs = Number(responseHeaders?.['retry-after-ms']);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) return { retryAfterMs };
+
+    const retryAfter = responseHeaders?.['retry-after'];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const untilDate = Date.parse(retryAfter) - Date.now(); // HTTP-date form
+      if (Number.isFinite(seconds)) return { retryAfterMs: seconds * 1000 };
+      if (Number.isFinite(untilDate)) return { retryAfterMs: Math.max(0, untilDate) };
+    }
+    return {};
+  }
+
+  return rateLimitOf(lastError, depth + 1) ?? rateLimitOf(cause, depth + 1);
+}
+
+/**
+ * Run a model call once its provider's lane has room
+ * `run` should make exactly one model request - calls that send several schedule each of them
+ *
+ * Each provider gets an AIMD window shared by every call made from this process:
+ * - a success under the latency target grows it by about one call per window's worth of calls
+ * - a success over the latency target shrinks it by 10%
+ * - a 429 halves it (once per window of calls) and pauses the lane for any retry-after the provider sent
+ * Calls also wait while the provider's rpm/tpm budget for the rolling minute is spent.
+ * @param provider - Lane to run the call in
+ * @param run - The call; its errors are passed through unchanged
+ */
+export async function scheduleCall<T>(provider: AIProvider, run: () => Promise<T>): Promise<T> {
+  const lane = await getLane(provider);
+
+  await new Promise<void>((resolve) => {
+    lane.queue.push(resolve);
+    pump(provider, lane);
+  });
+
+  const startedAt = Date.now();
+  const { limits } = lane;
+
+  try {
+    const result = await run();
+
+    if (Date.now() - startedAt > limits.latencyTargetMs) {
+      if (startedAt >= lane.lastDecreaseAt) {
+        lane.concurrency = Math.max(limits.minConcurrency, lane.concurrency * LATENCY_DECREASE_FACTOR);
+        lane.lastDecreaseAt = Date.now();
+      }
+    } else {
+      lane.concurrency = Math.min(limits.maxConcurrency, lane.concurrency + 1 / lane.concurrency);
+    }
+    return result;
+  } catch (error) {
+    const rateLimit = rateLimitOf(error);
+
+    if (rateLimit) {
+      // Calls that started before the last decrease saw the old window - don't punish it twice
+      if (startedAt >= lane.lastDecreaseAt) {
+        lane.concurrency = Math.max(limits.minConcurrency, lane.concurrency * DECREASE_FACTOR);
+        lane.lastDecreaseAt = Date.now();
+        console.warn(`[Scheduler] ${provider} rate limited, concurrency now ${Math.floor(lane.concurrency)}`);
+      }
+      if (rateLimit.retryAfterMs) {
+        lane.blockedUntil = Math.max(lane.blockedUntil, Date.now() + rateLimit.retryAfterMs);
+      }
+    }
+    throw error;
+  } finally {
+    lane.inFlight--;
+    pump(provider, lane);
+  }
+}
+
+/**
+ * Count what a finished call really used against its provider's token budget
+ * The call reserved the running average when it started; the difference is booked now.
+ */
+export function recordTokenUsage(provider: AIProvider, tokens: number): void {
+  const lane = lanes.get(provider);
+  if (!lane) return;
+
+  lane.tokens.push({ at: Date.now(), tokens: tokens - lane.averageTokens });
+  lane.averageTokens = lane.averageTokens * 0.8 + tokens * 0.2;
+}
+
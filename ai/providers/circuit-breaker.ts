@@ -0,0 +1,100 @@
+import type { AIProvider } from './provider-factory';
+
+/**
+ * Circuit breaker state for one provider
+ * - "closed": healthy, calls go through
+ * - "open": tripped after repeated failures, calls are skipped until the cooldown ends
+ * - "half_open": cooldown over, the next call is a trial that closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  provider: AIProvider;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  openedAt?: number; // Epoch ms when the circuit last tripped
+}
+
+interface Breaker {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError?: string;
+}
+
+// Per process - a warm serverless instance remembers a dead provider across steps
+const breakers = new Map<AIProvider, Breaker>();
+
+function getFailureThreshold(): number {
+  return Number(process.env.CIRCUIT_BREAKER_THRESHOLD) || 3;
+}
+
+function getCooldownMs(): number {
+  return Number(process.env.CIRCUIT_BREAKER_COOLDOWN_MS) || 60_000;
+}
+
+function getBreaker(provider: AIProvider): Breaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = { consecutiveFailures: 0, openedAt: null };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+function stateOf(breaker: Breaker): CircuitState {
+  if (breaker.openedAt === null) return 'closed';
+  return Date.now() - breaker.openedAt >= getCooldownMs() ? 'half_open' : 'open';
+}
+
+/**
+ * Whether a call to this provider should be attempted right now
+ */
+export function isProviderAvailable(provider: AIProvider): boolean {
+  return stateOf(getBreaker(provider)) !== 'open';
+}
+
+/**
+ * Close the circuit after a successful call
+ */
+export function recordProviderSuccess(provider: AIProvider): void {
+  const breaker = getBreaker(provider);
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = null;
+  breaker.lastError = undefined;
+}
+
+/**
+ * Count a failure (errors and timeouts alike), tripping the circuit at the threshold
+ * A failed half-open trial re-opens it straight away
+ */
+export function recordProviderFailure(provider: AIProvider, error: unknown): void {
+  const breaker = getBreaker(provider);
+  const wasHalfOpen = stateOf(breaker) === 'half_open';
+
+  breaker.consecutiveFailures++;
+  breaker.lastError = error instanceof Error ? error.message : String(error);
+
+  if (wasHalfOpen || breaker.consecutiveFailures >= getFailureThreshold()) {
+    if (breaker.openedAt === null || wasHalfOpen) {
+      console.warn(`[Circuit Breaker] ${provider} tripped after ${breaker.consecutiveFailures} failures: ${breaker.lastError}`);
+    }
+    breaker.openedAt = Date.now();
+  }
+}
+
+/**
+ * Snapshot of every provider's circuit, for the progress stream
+ */
+export function getProviderHealth(providers: AIProvider[]): ProviderHealth[] {
+  return providers.map((provider) => {
+    const breaker = getBreaker(provider);
+    return {
+      provider,
+      state: stateOf(breaker),
+      consecutiveFailures: breaker.consecutiveFailures,
+      lastError: breaker.lastError,
+      openedAt: breaker.openedAt ?? undefined,
+    };
+  });
+}
@@ -0,0 +1,200 @@
+import { simulateReadableStream, type LanguageModel } from 'ai';
+import type { ContentAnalysis } from '../ocr/types';
+import { ANALYSIS_GROUPS, categoriesInTier, type CategoryKey } from '../ocr/categories';
+
+/**
+ * What a model call is about - lets the fixture provider key verdicts to frames
+ * Real providers ignore it
+ */
+export interface ModerationSubject {
+  filename?: string; // Upload filename
+  timestamp?: number; // Frame timestamp in seconds
+  hash?: string | null; // Perceptual hash of the frame
+  frames?: ModerationSubject[]; // Batched calls - one per image, in order
+}
+
+/**
+ * One rule in the fixture file - every key that is present must match
+ * Rules with `text` apply to text calls (on-screen text rating, transcript segments);
+ * the others apply to frames.
+ */
+export interface FixtureRule {
+  filename?: string; // Regex tested against the upload filename
+  hash?: string; // Exact perceptual hash
+  startSeconds?: number; // Frame timestamp range, inclusive
+  endSeconds?: number;
+  text?: string; // Regex (case-insensitive) tested against the text under review
+  detect?: Partial<Record<CategoryKey, number>>; // Category key -> confidence 1-5
+  onScreenText?: string[]; // Lines returned when the frame's text is read
+}
+
+export interface ModerationFixture {
+  rules: FixtureRule[];
+}
+
+// Model id the fixture provider reports
+export const FIXTURE_VISION_MODEL = 'fixture';
+
+let cachedFixture: { path: string; fixture: ModerationFixture } | null = null;
+
+/**
+ * Load the rules at MODERATION_FIXTURE_PATH (no file = every call comes back clean)
+ */
+async function loadFixture(): Promise<ModerationFixture> {
+  const fixturePath = process.env.MODERATION_FIXTURE_PATH;
+  if (!fixturePath) return { rules: [] };
+  if (cachedFixture?.path === fixturePath) return cachedFixture.fixture;
+
+  const { readFile } = await import('fs/promises');
+  const fixture = JSON.parse(await readFile(fixturePath, 'utf8')) as ModerationFixture;
+
+  cachedFixture = { path: fixturePath, fixture };
+  return fixture;
+}
+
+function matchesFrame(rule: FixtureRule, subject: ModerationSubject): boolean {
+  if (rule.text !== undefined) return false;
+  if (rule.filename !== undefined && !new RegExp(rule.filename).test(subject.filename ?? '')) return false;
+  if (rule.hash !== undefined && rule.hash !== subject.hash) return false;
+
+  const timestamp = subject.timestamp;
+  if (rule.startSeconds !== undefined && (timestamp === undefined || timestamp < rule.startSeconds)) return false;
+  if (rule.endSeconds !== undefined && (timestamp === undefined || timestamp > rule.endSeconds)) return false;
+
+  return true;
+}
+
+function matchesText(rule: FixtureRule, text: string): boolean {
+  return rule.text !== undefined && new RegExp(rule.text, 'i').test(text);
+}
+
+/**
+ * Build a schema-valid analysis from the matching rules (highest confidence wins)
+ */
+function buildAnalysis(rules: FixtureRule[]): ContentAnalysis {
+  const detection = (category: string) => {
+    const confidence = Math.max(0, ...rules.map((rule) => rule.detect?.[category as CategoryKey] ?? 0));
+    return confidence > 0
+      ? { detected: true, confidence, reason: `Fixture rule flags ${category}` }
+      : { detected: false, confidence: 1, reason: 'No fixture rule matched' };
+  };
+
+  return Object.fromEntries(
+    ANALYSIS_GROUPS
+      .filter(({ tier }) => categoriesInTier(tier).length > 0)
+      .map(({ group, tier }) => [
+        group,
+        Object.fromEntries(categoriesInTier(tier).map(({ key }) => [key, detection(key)])),
+      ])
+  );
+}
+
+type FixtureModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<FixtureModel['doGenerate']>[0];
+
+/**
+ * Answer a structured-output call, picking the output shape from the requested JSON schema
+ */
+async function respond(options: CallOptions, subject: ModerationSubject): Promise<string> {
+  const { rules } = await loadFixture();
+
+  const schema = options.responseFormat?.type === 'json' ? options.responseFormat.schema : undefined;
+  const properties = Object.keys((schema as { properties?: object } | undefined)?.properties ?? {});
+
+  const texts = options.prompt.flatMap((message) =>
+    message.role === 'user'
+      ? message.content.flatMap((part) => (part.type === 'text' ? [part.text] : []))
+      : []
+  );
+  const hasImage = options.prompt.some(
+    (message) => message.role === 'user' && message.content.some((part) => part.type === 'file')
+  );
+
+  // Text read off a frame
+  if (properties.includes('lines')) {
+    const lines = rules
+      .filter((rule) => matchesFrame(rule, subject))
+      .flatMap((rule) => rule.onScreenText ?? []);
+    return JSON.stringify({ lines: lines.map((text) => ({ text, kind: 'overlay' })) });
+  }
+
+  // Transcript window - segments arrive as "[index] (start - end) text" lines
+  if (properties.includes('flaggedSegments')) {
+    const flaggedSegments = texts
+      .flatMap((text) => text.split('\n'))
+      .flatMap((line) => {
+        const match = /^\[(\d+)\] \([^)]*\) (.*)$/.exec(line);
+        if (!match) return [];
+
+        const matching = rules.filter((rule) => matchesText(rule, match[2]));
+        return matching.length > 0
+          ? [{ segmentIndex: Number(match[1]), analysis: buildAnalysis(matching) }]
+          : [];
+      });
+    return JSON.stringify({ flaggedSegments });
+  }
+
+  // Window of consecutive frames - one analysis per image, matched against its own subject
+  if (properties.includes('frames')) {
+    const frames = (subject.frames ?? []).map((frame, frameIndex) => ({
+      frameIndex,
+      analysis: buildAnalysis(
+        rules.filter((rule) => matchesFrame(rule, { filename: subject.filename, ...frame }))
+      ),
+    }));
+    return JSON.stringify({ frames });
+  }
+
+  // Content analysis of a frame, or of a block of on-screen text (the last text part)
+  const matching = hasImage
+    ? rules.filter((rule) => matchesFrame(rule, subject))
+    : rules.filter((rule) => matchesText(rule, texts[texts.length - 1] ?? ''));
+  return JSON.stringify(buildAnalysis(matching));
+}
+
+/**
+ * Create an offline, deterministic model for development and end-to-end runs
+ *
+ * MODERATION_FIXTURE_PATH points at a file shaped like:
+ *   { "rules": [{ "filename": "^e2e-", "startSeconds": 6, "endSeconds": 9.9, "detect": { "gore": 4 } }] }
+ * Frames are matched by upload filename pattern, perceptual hash and timestamp range;
+ * text by pattern. Anything no rule matches comes back clean.
+ *
+ * @param subject - The frame being analyzed, if any
+ * @returns Model that never touches the network
+ */
+export function createFixtureVisionModel(subject: ModerationSubject = {}): FixtureModel {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'local',
+    modelId: FIXTURE_VISION_MODEL,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = await respond(options, subject);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const text = await respond(options, subject);
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'stream-start' as const, warnings: [] },
+            { type: 'text-start' as const, id: '0' },
+            { type: 'text-delta' as const, id: '0', delta: text },
+            { type: 'text-end' as const, id: '0' },
+            { type: 'finish' as const, finishReason: 'stop' as const, usage },
+          ],
+        }),
+      };
+    },
+  };
+}
@@ -1,5 +1,8 @@
 import { google } from '@ai-sdk/google';
 
+// Model requested for every Gemini moderation call
+export const GEMINI_VISION_MODEL = 'gemini-2.5-flash-lite';
+
 /**
  * Create a Google Gemini vision model for content moderation
  * @returns Configured Gemini model instance
@@ -11,5 +14,5 @@ export function createGeminiVisionModel() {
   }
 
   // Return configured model with vision capabilities
-  return google('gemini-2.5-flash-lite');
+  return google(GEMINI_VISION_MODEL);
 }
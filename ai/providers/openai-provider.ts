@@ -1,5 +1,8 @@
 import { openai } from "@ai-sdk/openai";
 
+// Model requested for every OpenAI moderation call
+export const OPENAI_VISION_MODEL = "gpt-5";
+
 /**
  * Create an OpenAI vision model for content moderation
  * @returns Configured OpenAI model instance
@@ -14,5 +17,5 @@ export function createOpenAIVisionModel() {
 
   // Return configured model with vision capabilities
   // gpt-4o has strong vision capabilities for content moderation
-  return openai("gpt-5");
+  return openai(OPENAI_VISION_MODEL);
 }
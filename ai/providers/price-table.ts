@@ -0,0 +1,46 @@
+import { priceUsage, type CallUsage, type PriceTable, type UsageRecord } from './usage';
+
+// Server only - the client imports ./usage for the types and summaries
+
+/**
+ * List prices for the models the providers use - override or extend them with AI_PRICE_TABLE_PATH
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  fixture: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+let cachedPriceTable: PriceTable | null = null;
+
+/**
+ * Load the price table, merging AI_PRICE_TABLE_PATH over the defaults
+ *
+ * The file is JSON shaped like:
+ *   { "gpt-5": { "inputPerMillion": 1.25, "outputPerMillion": 10 } }
+ */
+export async function loadPriceTable(): Promise<PriceTable> {
+  if (cachedPriceTable) return cachedPriceTable;
+
+  const tablePath = process.env.AI_PRICE_TABLE_PATH;
+  if (!tablePath) {
+    cachedPriceTable = DEFAULT_PRICE_TABLE;
+    return cachedPriceTable;
+  }
+
+  const { readFile } = await import('fs/promises');
+  const table = JSON.parse(await readFile(tablePath, 'utf8')) as PriceTable;
+
+  cachedPriceTable = { ...DEFAULT_PRICE_TABLE, ...table };
+  return cachedPriceTable;
+}
+
+/**
+ * Price reported calls against the (cached) price table
+ */
+export async function priceUsageRecords(calls: CallUsage[]): Promise<UsageRecord[]> {
+  if (calls.length === 0) return [];
+
+  const table = await loadPriceTable();
+  return calls.map((call) => ({ ...call, costUsd: priceUsage(call, table) }));
+}
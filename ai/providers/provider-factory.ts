@@ -1,10 +1,40 @@
-import { createOpenAIVisionModel } from './openai-provider';
-import { createGeminiVisionModel } from './gemini-provider';
+import { createOpenAIVisionModel, OPENAI_VISION_MODEL } from './openai-provider';
+import { createGeminiVisionModel, GEMINI_VISION_MODEL } from './gemini-provider';
+import {
+  createFixtureVisionModel,
+  FIXTURE_VISION_MODEL,
+  type ModerationSubject,
+} from './fixture-provider';
+import {
+  isProviderAvailable,
+  recordProviderFailure,
+  recordProviderSuccess,
+} from './circuit-breaker';
+import { scheduleCall } from './call-scheduler';
 
 /**
  * Supported AI providers for content moderation
  */
-export type AIProvider = 'openai' | 'gemini';
+export type AIProvider = 'openai' | 'gemini' | 'local';
+
+const SUPPORTED_PROVIDERS: AIProvider[] = ['openai', 'gemini', 'local'];
+
+// Providers the default chain falls back to - never the offline fixtures
+const REMOTE_PROVIDERS: AIProvider[] = ['openai', 'gemini'];
+
+/**
+ * Thrown when every provider in the chain failed or had its circuit open
+ */
+export class AllProvidersFailedError extends Error {
+  constructor(public readonly failures: { provider: AIProvider; error: string }[]) {
+    super(
+      failures.length > 0
+        ? `All AI providers failed: ${failures.map((f) => `${f.provider} (${f.error})`).join(', ')}`
+        : 'All AI providers are unavailable (circuits open)'
+    );
+    this.name = 'AllProvidersFailedError';
+  }
+}
 
 /**
  * Get the configured AI provider from environment variables
@@ -13,7 +43,7 @@ export type AIProvider = 'openai' | 'gemini';
 function getConfiguredProvider(): AIProvider {
   const provider = process.env.AI_PROVIDER?.toLowerCase() as AIProvider;
 
-  if (provider && !['openai', 'gemini'].includes(provider)) {
+  if (provider && !SUPPORTED_PROVIDERS.includes(provider)) {
     console.warn(`Invalid AI_PROVIDER value: "${provider}". Defaulting to "openai".`);
     return 'openai';
   }
@@ -21,12 +51,21 @@ function getConfiguredProvider(): AIProvider {
   return provider || 'openai';
 }
 
+/**
+ * The provider a call goes to: the per-upload override, or AI_PROVIDER
+ */
+export function resolveProvider(override?: AIProvider): AIProvider {
+  return override ?? getConfiguredProvider();
+}
+
 /**
  * Get the appropriate vision model based on the configured provider
+ * @param override - Provider requested for this upload; falls back to AI_PROVIDER
+ * @param subject - The frame being analyzed (only the offline fixture provider uses it)
  * @returns Configured AI model instance for vision/moderation tasks
  */
-export function getVisionModel() {
-  const provider = getConfiguredProvider();
+export function getVisionModel(override?: AIProvider, subject?: ModerationSubject) {
+  const provider = resolveProvider(override);
 
   console.log(`[AI Provider] Using ${provider} for content moderation`);
 
@@ -35,7 +74,141 @@ export function getVisionModel() {
       return createOpenAIVisionModel();
     case 'gemini':
       return createGeminiVisionModel();
+    case 'local':
+      return createFixtureVisionModel(subject);
     default:
       throw new Error(`Unsupported AI provider: ${provider}`);
   }
 }
+
+/**
+ * Model a provider's calls ask for (providers may report a dated id in the response)
+ * Needs no API key, so it can be used to build cache keys before any call is made
+ */
+export function getVisionModelId(provider: AIProvider): string {
+  switch (provider) {
+    case 'openai':
+      return OPENAI_VISION_MODEL;
+    case 'gemini':
+      return GEMINI_VISION_MODEL;
+    case 'local':
+      return FIXTURE_VISION_MODEL;
+    default:
+      throw new Error(`Unsupported AI provider: ${provider}`);
+  }
+}
+
+/**
+ * Ordered providers to try for each call
+ * Read from AI_PROVIDER_CHAIN (e.g. "gemini,openai"); defaults to AI_PROVIDER followed by the remote rest
+ * The offline `local` provider never falls back to the network
+ * @param override - Provider requested for this upload; moved to the front of the chain
+ */
+export function getProviderChain(override?: AIProvider): AIProvider[] {
+  if (override === 'local') return ['local'];
+
+  const configured = (process.env.AI_PROVIDER_CHAIN ?? '')
+    .split(',')
+    .map((provider) => provider.trim().toLowerCase() as AIProvider)
+    .filter((provider) => {
+      if (!provider) return false;
+      if (SUPPORTED_PROVIDERS.includes(provider)) return true;
+      console.warn(`Ignoring unknown provider "${provider}" in AI_PROVIDER_CHAIN`);
+      return false;
+    });
+
+  const defaultProvider = getConfiguredProvider();
+  const chain = configured.length > 0
+    ? configured
+    : defaultProvider === 'local' ? ['local' as const] : [defaultProvider, ...REMOTE_PROVIDERS];
+
+  return [...new Set(override ? [override, ...chain] : chain)];
+}
+
+/**
+ * Schedule one model request in a provider's lane, with a timeout
+ * Passed to calls that make several requests, so each one is counted against the lane's budgets
+ */
+export type ScheduleRequest = <R>(request: () => Promise<R>) => Promise<R>;
+
+// The wait for a slot doesn't count towards the timeout
+async function scheduleWithTimeout<T>(
+  provider: AIProvider,
+  request: () => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const call = () => {
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${provider} timed out after ${timeoutMs / 1000}s`)),
+        timeoutMs
+      );
+    });
+    return Promise.race([request(), timeoutPromise]);
+  };
+
+  try {
+    return await scheduleCall(provider, call);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a model call against a single provider, with a timeout, recording the outcome on its circuit
+ * The call waits for a slot in the provider's shared scheduler lane first; the wait doesn't count towards the timeout
+ * @param provider - Provider to call
+ * @param run - The call to make (use getVisionModel(provider) inside)
+ * @param perRequest - `run` sends several model requests and passes each through its `schedule` argument,
+ *   so each takes its own lane slot and timeout; otherwise the whole call is one request
+ */
+export async function runOnProvider<T>(
+  provider: AIProvider,
+  run: (provider: AIProvider, schedule: ScheduleRequest) => Promise<T>,
+  timeoutMs = 120000, // 2 minute timeout
+  perRequest = false
+): Promise<T> {
+  const schedule: ScheduleRequest = (request) => scheduleWithTimeout(provider, request, timeoutMs);
+
+  try {
+    const result = perRequest
+      ? await run(provider, schedule)
+      : await schedule(() => run(provider, (request) => request()));
+    recordProviderSuccess(provider);
+    return result;
+  } catch (error) {
+    console.error(`[AI Provider] ${provider} failed:`, error);
+    recordProviderFailure(provider, error);
+    throw error;
+  }
+}
+
+/**
+ * Run a model call against each provider in the chain until one succeeds
+ * Providers with an open circuit are skipped; errors and timeouts count against the circuit
+ * @param run - The call to make with a given provider (use getVisionModel(provider) inside)
+ * @returns The result and the provider that actually produced it
+ */
+export async function withProviderFallback<T>(
+  run: (provider: AIProvider, schedule: ScheduleRequest) => Promise<T>,
+  options: { override?: AIProvider; timeoutMs?: number; perRequest?: boolean } = {}
+): Promise<{ result: T; provider: AIProvider }> {
+  const failures: { provider: AIProvider; error: string }[] = [];
+
+  for (const provider of getProviderChain(options.override)) {
+    if (!isProviderAvailable(provider)) {
+      console.log(`[AI Provider] Skipping ${provider} (circuit open)`);
+      continue;
+    }
+
+    try {
+      const result = await runOnProvider(provider, run, options.timeoutMs, options.perRequest);
+      return { result, provider };
+    } catch (error) {
+      failures.push({ provider, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  throw new AllProvidersFailedError(failures);
+}
@@ -0,0 +1,117 @@
+import type { AIProvider } from './provider-factory';
+
+/**
+ * Which kind of model call a usage record belongs to
+ */
+export type UsageKind = 'frame' | 'window' | 'text_extraction' | 'text_rating' | 'transcript';
+
+/**
+ * Token usage and latency of one model call
+ */
+export interface UsageRecord {
+  provider: AIProvider;
+  model: string; // Model id reported by the provider, e.g. "gpt-5"
+  kind: UsageKind;
+  inputTokens: number;
+  outputTokens: number;
+  images: number; // Images sent with the call (already counted in inputTokens by the provider)
+  latencyMs: number;
+  costUsd: number | null; // null when the price table has no entry for the model
+}
+
+/**
+ * A usage record as reported by the call, before pricing
+ */
+export type CallUsage = Omit<UsageRecord, 'costUsd'>;
+
+/**
+ * Sums over a set of usage records
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+  costUsd: number;
+  unpricedCalls: number; // Calls whose model is missing from the price table - not in costUsd
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byProvider: Partial<Record<AIProvider, UsageTotals>>;
+  byKind: Partial<Record<UsageKind, UsageTotals>>;
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>; // Keyed by model id
+
+/**
+ * Price a call (model ids with a dated suffix, e.g. "gpt-5-2025-08-07", match their base entry)
+ */
+export function priceUsage(
+  usage: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>,
+  table: PriceTable
+): number | null {
+  const price = table[usage.model]
+    ?? Object.entries(table).find(([model]) => usage.model.startsWith(`${model}-`))?.[1];
+  if (!price) return null;
+
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    images: totals.images + record.images,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    costUsd: totals.costUsd + (record.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (record.costUsd === null ? 1 : 0),
+  };
+}
+
+/**
+ * Aggregate usage records for a video, overall and per provider / call kind
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { total: emptyTotals(), byProvider: {}, byKind: {} };
+
+  for (const record of records) {
+    summary.total = addRecord(summary.total, record);
+    summary.byProvider[record.provider] = addRecord(summary.byProvider[record.provider] ?? emptyTotals(), record);
+    summary.byKind[record.kind] = addRecord(summary.byKind[record.kind] ?? emptyTotals(), record);
+  }
+
+  return summary;
+}
+
+/**
+ * Add up several summaries, e.g. every saved video for the spend view
+ */
+export function mergeUsageTotals(totals: UsageTotals[]): UsageTotals {
+  return totals.reduce(
+    (sum, entry) => ({
+      calls: sum.calls + entry.calls,
+      inputTokens: sum.inputTokens + entry.inputTokens,
+      outputTokens: sum.outputTokens + entry.outputTokens,
+      images: sum.images + entry.images,
+      latencyMs: sum.latencyMs + entry.latencyMs,
+      costUsd: sum.costUsd + entry.costUsd,
+      unpricedCalls: sum.unpricedCalls + entry.unpricedCalls,
+    }),
+    emptyTotals()
+  );
+}
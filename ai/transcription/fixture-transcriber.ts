@@ -0,0 +1,45 @@
+import type { SpeechToTextProvider, Transcript, TranscriptSegment } from "./types";
+
+/**
+ * Create an offline speech-to-text provider backed by a JSON fixture file
+ *
+ * TRANSCRIPT_FIXTURE_PATH points at a file shaped like:
+ *   { "default": [{ "start": 0, "end": 2.5, "text": "..." }], "my-video.mp4": [...] }
+ * Segments are looked up by upload filename, then "default", and use video timestamps; each call
+ * returns the ones inside the audio it was given, relative to its start. Without a fixture
+ * every video transcribes as silence, which keeps the stage runnable with no network.
+ *
+ * @returns Provider that never touches the network
+ */
+export function createFixtureTranscriber(): SpeechToTextProvider {
+  return {
+    name: "local",
+    async transcribe(_audio, { filename, offsetSeconds, durationSeconds }) {
+      const fixturePath = process.env.TRANSCRIPT_FIXTURE_PATH;
+      let segments: TranscriptSegment[] = [];
+
+      if (fixturePath) {
+        const { readFile } = await import("fs/promises");
+        const fixtures = JSON.parse(await readFile(fixturePath, "utf8")) as Record<
+          string,
+          TranscriptSegment[]
+        >;
+        segments = (fixtures[filename] ?? fixtures.default ?? [])
+          .filter((segment) => segment.start >= offsetSeconds && segment.start < offsetSeconds + durationSeconds)
+          .map((segment) => ({
+            ...segment,
+            start: segment.start - offsetSeconds,
+            end: segment.end - offsetSeconds,
+          }));
+      }
+
+      const transcript: Transcript = {
+        text: segments.map((segment) => segment.text).join(" "),
+        segments,
+        provider: "local",
+      };
+
+      return transcript;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { experimental_transcribe as transcribe } from "ai";
+import { openai } from "@ai-sdk/openai";
+import type { SpeechToTextProvider } from "./types";
+
+/**
+ * Create an OpenAI Whisper speech-to-text provider
+ * @returns Provider returning segment-level timestamps
+ */
+export function createOpenAITranscriber(): SpeechToTextProvider {
+  // Validate API key
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error(
+      "OPENAI_API_KEY environment variable is required when using OpenAI transcription"
+    );
+  }
+
+  return {
+    name: "openai",
+    async transcribe(audio) {
+      const result = await transcribe({
+        model: openai.transcription("whisper-1"),
+        audio,
+        providerOptions: {
+          openai: { timestampGranularities: ["segment"] },
+        },
+      });
+
+      return {
+        text: result.text,
+        segments: result.segments.map((segment) => ({
+          start: segment.startSecond,
+          end: segment.endSecond,
+          text: segment.text.trim(),
+        })),
+        language: result.language,
+        provider: "openai",
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { createOpenAITranscriber } from "./openai-transcriber";
+import { createFixtureTranscriber } from "./fixture-transcriber";
+import type { SpeechToTextProvider } from "./types";
+
+/**
+ * Supported speech-to-text providers
+ */
+export type TranscriptionProvider = "openai" | "local";
+
+/**
+ * Get the configured speech-to-text provider from environment variables
+ * Defaults to 'openai' if not specified
+ */
+function getConfiguredTranscriptionProvider(): TranscriptionProvider {
+  const provider = process.env.STT_PROVIDER?.toLowerCase() as TranscriptionProvider;
+
+  if (provider && !["openai", "local"].includes(provider)) {
+    console.warn(`Invalid STT_PROVIDER value: "${provider}". Defaulting to "openai".`);
+    return "openai";
+  }
+
+  return provider || "openai";
+}
+
+/**
+ * Get the speech-to-text provider used for audio moderation
+ * @returns Configured provider instance
+ */
+export function getTranscriber(): SpeechToTextProvider {
+  const provider = getConfiguredTranscriptionProvider();
+
+  console.log(`[STT Provider] Using ${provider} for transcription`);
+
+  switch (provider) {
+    case "openai":
+      return createOpenAITranscriber();
+    case "local":
+      return createFixtureTranscriber();
+    default:
+      throw new Error(`Unsupported transcription provider: ${provider}`);
+  }
+}
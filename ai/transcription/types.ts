@@ -0,0 +1,36 @@
+/**
+ * A timestamped slice of speech
+ */
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+/**
+ * Full transcript of a video's audio track
+ */
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string;
+  provider: string; // Which speech-to-text provider produced it
+}
+
+/**
+ * Where a piece of audio sits on the video's timeline - long tracks are transcribed in chunks
+ */
+export interface TranscribeOptions {
+  filename: string;
+  offsetSeconds: number; // Where the audio starts in the video
+  durationSeconds: number;
+}
+
+/**
+ * Pluggable speech-to-text backend
+ * Implementations must return segment timestamps relative to the start of the audio
+ */
+export interface SpeechToTextProvider {
+  name: string;
+  transcribe(audio: Buffer, options: TranscribeOptions): Promise<Transcript>;
+}
@@ -0,0 +1,69 @@
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { NextResponse } from "next/server";
+import { fsBlobPath, isFsBlobBackend } from "@/lib/blob-store";
+
+export const runtime = "nodejs";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".mp4": "video/mp4",
+  ".vtt": "text/vtt",
+  ".avi": "video/x-msvideo",
+  ".mov": "video/quicktime",
+  ".mkv": "video/x-matroska",
+  ".webm": "video/webm",
+};
+
+/**
+ * Serve blobs stored by the fs backend (BLOB_BACKEND=fs) - a stand-in for Vercel Blob's public URLs
+ * Not found in every other mode
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ pathname: string[] }> }
+) {
+  if (!isFsBlobBackend()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const filePath = await fsBlobPath((await params).pathname.join("/"));
+  const stats = filePath ? await stat(filePath).catch(() => null) : null;
+
+  if (!filePath || !stats?.isFile()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const headers = {
+    "Content-Type": CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream",
+    "Accept-Ranges": "bytes",
+  };
+
+  // Single byte ranges, like Vercel Blob - ffprobe seeks through videos with them instead of downloading
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get("range") ?? "");
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, stats.size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), stats.size - 1) : stats.size - 1;
+
+    if (start > end || start >= stats.size) {
+      return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${stats.size}` } });
+    }
+
+    return new Response(Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(end - start + 1),
+        "Content-Range": `bytes ${start}-${end}/${stats.size}`,
+      },
+    });
+  }
+
+  // Streamed - uploaded videos can be several GB
+  return new Response(Readable.toWeb(createReadStream(filePath)) as ReadableStream, {
+    headers: { ...headers, "Content-Length": String(stats.size) },
+  });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { alwaysBlurCategoriesFromEnv } from "@/lib/reviewer-settings";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic"; // Read ALWAYS_BLUR_CATEGORIES per request, not at build time
+
+/**
+ * The admin's reviewer settings - categories that always start blurred, whatever a reviewer picks
+ */
+export async function GET() {
+  return NextResponse.json({ alwaysBlurCategories: alwaysBlurCategoriesFromEnv() });
+}
@@ -1,33 +1,107 @@
 import { start } from "workflow/api";
 import { processVideoUpload } from "@/workflows/process-video";
+import { processingOptionsSchema } from "@/lib/processing-options";
+import { loadRatingPolicies, resolveRatingPolicy } from "@/lib/rating-policy-loader";
+import { policyRef } from "@/lib/rating-policy";
+import { resolvePromptAssignment } from "@/ai/prompts/registry";
+import { safeUploadName } from "@/lib/resumable-upload";
+import { getFsBlobBaseUrl, isFsBlobBackend } from "@/lib/blob-store";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
 export const runtime = "nodejs";
 export const maxDuration = 300; // 5 minutes
 
+// The video itself is uploaded by the client straight to blob storage (see lib/resumable-upload.ts)
+// This route only receives a reference to it
+const startProcessingSchema = z.object({
+  blobUrl: z.string().url(),
+  filename: z.string().min(1).max(255).transform(safeUploadName), // Ends up in temp file paths and ffmpeg commands
+  options: processingOptionsSchema.default({}),
+});
+
+/**
+ * Only accept videos uploaded through our token route - the workflow downloads this URL and deletes it afterwards
+ * The host must be our own store (its id is part of BLOB_READ_WRITE_TOKEN) and the pathname under uploads/,
+ * so a request can never point the workflow at screenshots, clips or deliverables of another run
+ */
+function isOwnUploadUrl(url: string): boolean {
+  // Offline runs (BLOB_BACKEND=fs) serve uploads from app/api/blob instead
+  if (isFsBlobBackend()) {
+    try {
+      return new URL(url).href.startsWith(`${getFsBlobBaseUrl()}/uploads/`);
+    } catch {
+      return false;
+    }
+  }
+
+  const [, , , storeId] = (process.env.BLOB_READ_WRITE_TOKEN ?? "").split("_");
+  if (!storeId) return false;
+
+  try {
+    const { protocol, hostname, pathname } = new URL(url);
+    return (
+      protocol === "https:" &&
+      hostname === `${storeId.toLowerCase()}.public.blob.vercel-storage.com` &&
+      pathname.startsWith("/uploads/")
+    );
+  } catch {
+    return false;
+  }
+}
+
 export async function POST(request: Request) {
   try {
-    // Get the form data
-    const formData = await request.formData();
-    const file = formData.get("video") as File;
+    const body = await request.json().catch(() => null);
 
-    if (!file) {
+    if (!body) {
       return NextResponse.json(
-        { error: "No video file provided" },
+        { error: "Request body must be valid JSON" },
         { status: 400 }
       );
     }
 
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // Validate the blob reference and per-upload options
+    const parsed = startProcessingSchema.safeParse(body);
 
-    console.log(
-      `Received video upload: ${file.name}, size: ${buffer.length} bytes`
-    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid processing request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { blobUrl, filename, options } = parsed.data;
+
+    if (!isOwnUploadUrl(blobUrl)) {
+      return NextResponse.json(
+        { error: "Video must be uploaded to blob storage first" },
+        { status: 400 }
+      );
+    }
+
+    // The resolved document goes into the run, so later policy edits never change this result
+    const policy = await resolveRatingPolicy(options.policy);
+
+    if (!policy) {
+      const available = (await loadRatingPolicies()).map(policyRef);
+      return NextResponse.json(
+        { error: `Unknown rating policy "${options.policy}"`, available },
+        { status: 400 }
+      );
+    }
+
+    // A/B splits are drawn here, once, so workflow replays always see the same variant
+    const prompts = resolvePromptAssignment(options.prompts);
+
+    if ("error" in prompts) {
+      return NextResponse.json({ error: prompts.error }, { status: 400 });
+    }
+
+    console.log(`Received video for processing: ${filename} at ${blobUrl} (policy ${policyRef(policy)})`);
 
-    // Start the workflow asynchronously
-    const workflowRun = await start(processVideoUpload, [buffer, file.name]);
+    // Start the workflow asynchronously - only the blob reference is serialized into the run
+    const workflowRun = await start(processVideoUpload, [blobUrl, filename, options, policy, prompts.assignment]);
 
     // Get the readable stream from the workflow (use .readable property)
     const stream = workflowRun.readable;
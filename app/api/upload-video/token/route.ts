@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { generateClientTokenFromReadWriteToken } from "@vercel/blob/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { MAX_UPLOAD_BYTES, MAX_SESSION_AGE_MS, safeUploadName } from "@/lib/resumable-upload";
+
+export const runtime = "nodejs";
+
+// Client tokens stay valid long enough to resume an interrupted multi-GB upload
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const tokenRequestSchema = z.object({
+  filename: z.string().min(1).max(255),
+  size: z.number().int().positive().max(MAX_UPLOAD_BYTES),
+  // Set when resuming - the session this route issued for the upload, so a token is only reissued to its owner
+  session: z
+    .object({
+      pathname: z.string().startsWith("uploads/"),
+      createdAt: z.number().int().positive(),
+      signature: z.string().min(1),
+    })
+    .optional(),
+});
+
+/**
+ * Sign an upload session, binding its pathname, size and start time
+ * Keyed on UPLOAD_SESSION_SECRET, or the blob read-write token when that isn't set
+ */
+function signSession(pathname: string, size: number, createdAt: number): string {
+  const secret = process.env.UPLOAD_SESSION_SECRET || process.env.BLOB_READ_WRITE_TOKEN;
+  if (!secret) throw new Error("UPLOAD_SESSION_SECRET or BLOB_READ_WRITE_TOKEN must be set");
+
+  return createHmac("sha256", secret).update(`${pathname}\n${size}\n${createdAt}`).digest("base64url");
+}
+
+function isValidSession(session: { pathname: string; createdAt: number; signature: string }, size: number): boolean {
+  if (Date.now() - session.createdAt > MAX_SESSION_AGE_MS) return false;
+
+  const expected = new Uint8Array(Buffer.from(signSession(session.pathname, size, session.createdAt)));
+  const actual = new Uint8Array(Buffer.from(session.signature));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Issue a client token so the browser can upload the video straight to blob storage
+ * The video never passes through this route (or the workflow) as a request body
+ */
+export async function POST(request: Request) {
+  try {
+    const parsed = tokenRequestSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid upload request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { filename, size, session } = parsed.data;
+
+    // Only the session's own signature renews a token for its pathname - not just any `uploads/...` path
+    if (session && !isValidSession(session, size)) {
+      return NextResponse.json({ error: "Upload session is no longer valid" }, { status: 403 });
+    }
+
+    // Keep the original name readable but safe for a blob pathname
+    const safeName = safeUploadName(filename);
+    const pathname = session?.pathname ?? `uploads/${Date.now()}-${safeName}`;
+    const createdAt = session?.createdAt ?? Date.now();
+    const validUntil = Math.min(Date.now() + TOKEN_TTL_MS, createdAt + MAX_SESSION_AGE_MS);
+
+    const token = await generateClientTokenFromReadWriteToken({
+      pathname,
+      maximumSizeInBytes: size,
+      validUntil,
+      addRandomSuffix: false, // The pathname must stay stable across resumed sessions
+    });
+
+    return NextResponse.json({
+      pathname,
+      token,
+      validUntil,
+      createdAt,
+      signature: signSession(pathname, size, createdAt),
+    });
+  } catch (error) {
+    console.error("Error generating upload token:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,10 @@ export default function Page() {
 
   return (
     <div className="min-h-screen bg-background">
-      <Topbar onVideoSaved={handleVideoSaved} />
+      <Topbar
+        onVideoSaved={handleVideoSaved}
+        onSettingsSaved={() => refreshVideosRef.current?.()} // Re-render thumbnails with the new blur settings
+      />
       <main>
         <div className="container mx-auto py-8">
           <div className="mb-8">
@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { EyeIcon, EyeOffIcon } from "lucide-react"
+import { loadAlwaysBlurCategories, shouldStartBlurred } from "@/lib/reviewer-settings"
+
+/**
+ * The admin's always-blur list, or null until it has loaded
+ */
+export function useAlwaysBlurCategories(): string[] | null {
+  const [categories, setCategories] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadAlwaysBlurCategories().then((loaded) => {
+      if (!cancelled) setCategories(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return categories
+}
+
+interface BlurredScreenshotProps {
+  src: string
+  blurredSrc?: string // Pre-rendered blurred variant (missing on older records)
+  categories?: string
+  alt: string
+  className?: string
+}
+
+/**
+ * A flagged screenshot that starts blurred (per reviewer settings and the admin's always-blur list) until clicked
+ */
+export function BlurredScreenshot({ src, blurredSrc, categories, alt, className }: BlurredScreenshotProps) {
+  const startBlurred = shouldStartBlurred(categories, useAlwaysBlurCategories())
+  const [toggled, setToggled] = useState(false)
+  const revealed = startBlurred === toggled // A click flips whichever state it started in
+
+  if (!src) {
+    return <img src="/placeholder.svg" alt={alt} className={className} />
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation()
+        setToggled((value) => !value)
+      }}
+      className="group/reveal relative block w-full h-full"
+      aria-label={revealed ? "Blur screenshot" : "Reveal screenshot"}
+    >
+      {revealed ? (
+        <img src={src} alt={alt} className={className} />
+      ) : (
+        // Older records have no blurred variant - fall back to a CSS blur over the raw frame
+        <img
+          src={blurredSrc || src}
+          alt={`${alt} (blurred)`}
+          className={`${className ?? ""} ${blurredSrc ? "" : "blur-xl scale-110"}`}
+        />
+      )}
+      <span
+        className={`absolute inset-0 flex items-center justify-center gap-1 text-[10px] font-medium text-white transition-colors ${
+          revealed ? "group-hover/reveal:bg-black/30" : "bg-black/40 group-hover/reveal:bg-black/50"
+        }`}
+      >
+        {revealed ? (
+          <EyeOffIcon className="size-4 opacity-0 group-hover/reveal:opacity-100" />
+        ) : (
+          <>
+            <EyeIcon className="size-4" />
+            <span>Reveal</span>
+          </>
+        )}
+      </span>
+    </button>
+  )
+}
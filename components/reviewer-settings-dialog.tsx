@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAlwaysBlurCategories } from "@/components/blurred-screenshot";
+import {
+  DEFAULT_REVIEWER_SETTINGS,
+  getReviewerSettings,
+  saveReviewerSettings,
+  type ReviewerSettings,
+} from "@/lib/reviewer-settings";
+
+interface ReviewerSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSettingsSaved?: () => void;
+}
+
+export function ReviewerSettingsDialog({
+  open,
+  onOpenChange,
+  onSettingsSaved,
+}: ReviewerSettingsDialogProps) {
+  const [settings, setSettings] = useState<ReviewerSettings>(DEFAULT_REVIEWER_SETTINGS);
+  const alwaysBlurCategories = useAlwaysBlurCategories();
+
+  // Reload each time the dialog opens, so cancelled edits don't linger
+  useEffect(() => {
+    if (open) setSettings(getReviewerSettings());
+  }, [open]);
+
+  const handleSave = () => {
+    saveReviewerSettings(settings);
+    onSettingsSaved?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reviewer Settings</DialogTitle>
+          <DialogDescription>
+            Choose whether every flagged screenshot starts blurred. Click a blurred screenshot to reveal it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">Blur every flagged screenshot</p>
+            <div className="flex gap-1.5">
+              {[true, false].map((value) => (
+                <Button
+                  key={String(value)}
+                  type="button"
+                  size="sm"
+                  variant={settings.blurByDefault === value ? "default" : "outline"}
+                  onClick={() => setSettings((prev) => ({ ...prev, blurByDefault: value }))}
+                >
+                  {value ? "On" : "Off"}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">Always blurred</p>
+            <div className="flex flex-wrap gap-1.5">
+              {alwaysBlurCategories === null ? (
+                <span className="text-xs text-muted-foreground">Every flagged screenshot until the list loads</span>
+              ) : alwaysBlurCategories.length === 0 ? (
+                <span className="text-xs text-muted-foreground">None</span>
+              ) : (
+                alwaysBlurCategories.map((category) => (
+                  <Badge key={category} variant="secondary">
+                    {category}
+                  </Badge>
+                ))
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Set by your admin. These stay blurred by default even when blurring every screenshot is off.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { FlaggedVideo } from "@/components/video-moderation-grid";
+import { formatCost, formatTokens, getVideos } from "@/lib/video-storage";
+import { mergeUsageTotals, type UsageTotals } from "@/ai/providers/usage";
+import type { AIProvider } from "@/ai/providers/provider-factory";
+
+interface SpendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function UsageRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <tr className="border-b border-border last:border-0">
+      <td className="py-1.5 pr-3 truncate max-w-[12rem]" title={label}>{label}</td>
+      <td className="py-1.5 pr-3 text-right tabular-nums">{totals.calls}</td>
+      <td className="py-1.5 pr-3 text-right tabular-nums">{formatTokens(totals.inputTokens)}</td>
+      <td className="py-1.5 pr-3 text-right tabular-nums">{formatTokens(totals.outputTokens)}</td>
+      <td className="py-1.5 pr-3 text-right tabular-nums">{totals.images}</td>
+      <td className="py-1.5 text-right tabular-nums">
+        {formatCost(totals.costUsd)}
+        {totals.unpricedCalls > 0 && (
+          <span className="text-muted-foreground" title={`${totals.unpricedCalls} calls to models missing from the price table`}>*</span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: { id: string; label: string; totals: UsageTotals }[] }) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border text-muted-foreground">
+            <th className="py-1.5 pr-3 text-left font-medium"></th>
+            <th className="py-1.5 pr-3 text-right font-medium">Calls</th>
+            <th className="py-1.5 pr-3 text-right font-medium">Input</th>
+            <th className="py-1.5 pr-3 text-right font-medium">Output</th>
+            <th className="py-1.5 pr-3 text-right font-medium">Images</th>
+            <th className="py-1.5 text-right font-medium">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <UsageRow key={row.id} label={row.label} totals={row.totals} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function SpendDialog({ open, onOpenChange }: SpendDialogProps) {
+  const [videos, setVideos] = useState<FlaggedVideo[]>([]);
+
+  // Reload each time the dialog opens, so new uploads are counted
+  useEffect(() => {
+    if (open) setVideos(getVideos());
+  }, [open]);
+
+  // Videos saved before usage was tracked are left out
+  const usages = videos.flatMap((video) => (video.usage ? [{ video, usage: video.usage }] : []));
+  const total = mergeUsageTotals(usages.map(({ usage }) => usage.total));
+  const providers = [...new Set(usages.flatMap(({ usage }) => Object.keys(usage.byProvider) as AIProvider[]))];
+  const byProvider = providers.map((provider) => ({
+    id: provider,
+    label: provider,
+    totals: mergeUsageTotals(usages.flatMap(({ usage }) => usage.byProvider[provider] ?? [])),
+  }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Spend</DialogTitle>
+          <DialogDescription>
+            Model usage and estimated cost of the saved videos, priced when each was processed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {usages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No usage recorded yet. Videos processed from now on are counted here.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] overflow-auto">
+            <div className="space-y-6 pr-4">
+              <div className="flex items-baseline gap-2">
+                <span className="text-2xl font-semibold tabular-nums">{formatCost(total.costUsd)}</span>
+                <span className="text-sm text-muted-foreground">
+                  across {usages.length} video{usages.length !== 1 ? "s" : ""}, {total.calls} model calls
+                </span>
+              </div>
+
+              <UsageTable title="By provider" rows={byProvider} />
+
+              <UsageTable
+                title="By video"
+                rows={usages.map(({ video, usage }) => ({
+                  id: video.id,
+                  label: `${video.title} (${video.uploadDate})`,
+                  totals: usage.total,
+                }))}
+              />
+
+              {total.unpricedCalls > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  * Includes calls to models missing from the price table, counted at $0 - add them with AI_PRICE_TABLE_PATH.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
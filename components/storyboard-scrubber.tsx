@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { EyeIcon, EyeOffIcon } from "lucide-react"
+import { formatTimestamp } from "@/lib/video-storage"
+import { shouldStartBlurred } from "@/lib/reviewer-settings"
+import { useAlwaysBlurCategories } from "./blurred-screenshot"
+import { storyboardTileAt, type Storyboard } from "@/workflows/steps/storyboard"
+import type { FlaggedSegment } from "./video-moderation-grid"
+
+interface StoryboardTileProps {
+  storyboard: Storyboard
+  seconds: number
+  blurred?: boolean // Show the tile from the blurred sheet
+  className?: string
+}
+
+/**
+ * One tile of the sprite sheet, scaled to fill its container
+ */
+export function StoryboardTile({ storyboard, seconds, blurred = false, className }: StoryboardTileProps) {
+  const { index } = storyboardTileAt(storyboard, seconds)
+  const column = index % storyboard.columns
+  const row = Math.floor(index / storyboard.columns)
+
+  // Percentages keep the tile aligned whatever size the container is rendered at
+  const position = (cell: number, cells: number) => (cells > 1 ? (cell / (cells - 1)) * 100 : 0)
+
+  return (
+    <div
+      role="img"
+      aria-label={`Storyboard at ${formatTimestamp(seconds)}${blurred ? " (blurred)" : ""}`}
+      // Older storyboards have no blurred sheet - fall back to a CSS blur over the raw tile
+      className={`${className ?? ""} ${blurred && !storyboard.blurredSpriteUrl ? "blur-xl scale-110" : ""}`}
+      style={{
+        backgroundImage: `url(${(blurred && storyboard.blurredSpriteUrl) || storyboard.spriteUrl})`,
+        backgroundSize: `${storyboard.columns * 100}% ${storyboard.rows * 100}%`,
+        backgroundPosition: `${position(column, storyboard.columns)}% ${position(row, storyboard.rows)}%`,
+      }}
+    />
+  )
+}
+
+interface StoryboardScrubberProps {
+  storyboard: Storyboard
+  segments?: FlaggedSegment[] // Flagged ranges whose tiles start blurred, per reviewer settings
+}
+
+/**
+ * The flagged frame segments a tile overlaps, with their categories
+ * Older segments have no unformatted range, so every tile counts as overlapping them
+ * @returns A key naming the overlapped segments, or null when the tile is outside every segment
+ */
+function flaggedSegmentsAt(
+  storyboard: Storyboard,
+  segments: FlaggedSegment[],
+  seconds: number
+): { key: string; categories: string } | null {
+  const { index } = storyboardTileAt(storyboard, seconds)
+  const tileStart = index * storyboard.intervalSeconds
+  const tileEnd = tileStart + storyboard.intervalSeconds
+
+  const overlapping = segments
+    .map((segment, position) => ({ segment, position }))
+    .filter(
+      ({ segment }) =>
+        segment.source === "frame" &&
+        (segment.startSeconds === undefined ||
+          segment.endSeconds === undefined ||
+          (segment.startSeconds < tileEnd && segment.endSeconds >= tileStart))
+    )
+
+  if (overlapping.length === 0) return null
+  return {
+    key: overlapping.map(({ position }) => position).join(","),
+    categories: overlapping.map(({ segment }) => segment.categories).join(", "),
+  }
+}
+
+/**
+ * Scrub through the whole video with the storyboard, long after the original is deleted
+ * Tiles inside flagged segments start blurred until revealed, like flagged screenshots
+ */
+export function StoryboardScrubber({ storyboard, segments = [] }: StoryboardScrubberProps) {
+  const [seconds, setSeconds] = useState(0)
+  const [revealedSegments, setRevealedSegments] = useState<string | null>(null)
+  const alwaysBlurCategories = useAlwaysBlurCategories()
+
+  const flagged = flaggedSegmentsAt(storyboard, segments, seconds)
+  const canToggle = flagged !== null && shouldStartBlurred(flagged.categories, alwaysBlurCategories)
+  // A reveal covers only the segments it was made in - scrubbing into another one blurs again
+  const revealed = flagged !== null && revealedSegments === flagged.key
+  const blurred = canToggle && !revealed
+
+  return (
+    <div className="space-y-2">
+      <div className="relative aspect-video overflow-hidden rounded-lg bg-muted border border-border">
+        <StoryboardTile storyboard={storyboard} seconds={seconds} blurred={blurred} className="w-full h-full" />
+        {canToggle && (
+          <button
+            type="button"
+            onClick={() => setRevealedSegments(revealed ? null : flagged.key)}
+            className={`group/reveal absolute inset-0 flex items-center justify-center gap-1 text-xs font-medium text-white transition-colors ${
+              revealed ? "hover:bg-black/30" : "bg-black/40 hover:bg-black/50"
+            }`}
+            aria-label={revealed ? "Blur storyboard" : "Reveal storyboard"}
+          >
+            {revealed ? (
+              <EyeOffIcon className="size-5 opacity-0 group-hover/reveal:opacity-100" />
+            ) : (
+              <>
+                <EyeIcon className="size-5" />
+                <span>Reveal</span>
+              </>
+            )}
+          </button>
+        )}
+        <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs px-2 py-1 rounded">
+          {formatTimestamp(seconds)} / {formatTimestamp(storyboard.durationSeconds)}
+        </div>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={storyboard.durationSeconds}
+        step={storyboard.intervalSeconds}
+        value={seconds}
+        onChange={(e) => setSeconds(Number(e.target.value))}
+        aria-label="Scrub timeline"
+        className="w-full accent-primary"
+      />
+    </div>
+  )
+}
@@ -1,16 +1,21 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { UploadIcon } from "lucide-react";
+import { ReceiptIcon, SettingsIcon, UploadIcon } from "lucide-react";
 import { UploadVideoDialog } from "./upload-video-dialog";
+import { ReviewerSettingsDialog } from "./reviewer-settings-dialog";
+import { SpendDialog } from "./spend-dialog";
 import { useState } from "react";
 
 interface TopbarProps {
   onVideoSaved?: () => void;
+  onSettingsSaved?: () => void;
 }
 
-export function Topbar({ onVideoSaved }: TopbarProps) {
+export function Topbar({ onVideoSaved, onSettingsSaved }: TopbarProps) {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
+  const [spendDialogOpen, setSpendDialogOpen] = useState(false);
 
   return (
     <>
@@ -21,6 +26,22 @@ export function Topbar({ onVideoSaved }: TopbarProps) {
           </div>
 
           <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setSpendDialogOpen(true)}
+              className="gap-2"
+            >
+              <ReceiptIcon className="size-4" />
+              Spend
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSettingsDialogOpen(true)}
+              className="gap-2"
+            >
+              <SettingsIcon className="size-4" />
+              Settings
+            </Button>
             <Button
               onClick={() => setUploadDialogOpen(true)}
               className="gap-2"
@@ -37,6 +58,17 @@ export function Topbar({ onVideoSaved }: TopbarProps) {
         onOpenChange={setUploadDialogOpen}
         onVideoSaved={onVideoSaved}
       />
+
+      <ReviewerSettingsDialog
+        open={settingsDialogOpen}
+        onOpenChange={setSettingsDialogOpen}
+        onSettingsSaved={onSettingsSaved}
+      />
+
+      <SpendDialog
+        open={spendDialogOpen}
+        onOpenChange={setSpendDialogOpen}
+      />
     </>
   );
 }
@@ -29,7 +29,17 @@ import {
   Loader2Icon,
 } from "lucide-react";
 import { useState, useRef } from "react";
+import { BlurredScreenshot } from "@/components/blurred-screenshot";
 import { saveVideo, workflowResultToFlaggedVideo } from "@/lib/video-storage";
+import { uploadVideoResumable } from "@/lib/resumable-upload";
+import { ACCEPTED_VIDEO_EXTENSIONS, detectFileContainer } from "@/lib/container-detection";
+import {
+  SCAN_PRESETS,
+  type ScanPreset,
+  type ProcessingOptionsInput,
+} from "@/lib/processing-options";
+import { BUILT_IN_POLICIES, findRatingPolicy } from "@/lib/rating-policy";
+import { PROMPT_TEMPLATES, promptVersions } from "@/ai/prompts/registry";
 
 interface UploadVideoDialogProps {
   open: boolean;
@@ -37,6 +47,34 @@ interface UploadVideoDialogProps {
   onVideoSaved?: () => void; // Callback to refresh video grid
 }
 
+type ProviderChoice = "default" | "openai" | "gemini";
+
+const PROVIDER_CHOICES: { id: ProviderChoice; label: string }[] = [
+  { id: "default", label: "Default" },
+  { id: "gemini", label: "Gemini" },
+  { id: "openai", label: "OpenAI" },
+];
+
+type RedactionChoice = "none" | "blur" | "blackout" | "cut";
+
+// Per-category actions can still be set through the API's `redaction.actions`
+const REDACTION_CHOICES: { id: RedactionChoice; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "blur", label: "Blur" },
+  { id: "blackout", label: "Black out" },
+  { id: "cut", label: "Cut" },
+];
+
+// Each built-in policy's latest version - older versions are still selectable through the API
+const LATEST_BUILT_IN_POLICIES = BUILT_IN_POLICIES.filter(
+  (policy) => findRatingPolicy(policy.id, BUILT_IN_POLICIES) === policy
+);
+
+// Frame prompt: its default version, a pinned version, or an even A/B split over every version
+type FramePromptChoice = "default" | "split" | number;
+
+const FRAME_PROMPTS = PROMPT_TEMPLATES.filter((template) => template.id === "frame-rating");
+
 type UploadState = "idle" | "uploading" | "processing" | "success" | "error";
 
 type WorkflowStageStatus = "pending" | "in_progress" | "completed";
@@ -48,16 +86,35 @@ interface WorkflowStage {
   description?: string;
 }
 
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Fresh stage list; the first stage can start in progress when an upload begins
+const createWorkflowStages = (
+  firstStatus: WorkflowStageStatus = "pending"
+): WorkflowStage[] => [
+  { id: "upload", title: "Upload to Storage", status: firstStatus },
+  { id: "started", title: "Starting Workflow", status: "pending" },
+  { id: "extract", title: "Frame Extraction", status: "pending" },
+  { id: "process", title: "Frame Processing", status: "pending" },
+  { id: "audio", title: "Audio Transcription", status: "pending" },
+  { id: "cleanup", title: "Cleanup", status: "pending" },
+];
+
 interface Incident {
   timestamp: number;
   confidence: number;
   categories: string;
   screenshotUrl: string;
+  blurredScreenshotUrl?: string;
+  source?: "frame" | "audio";
+  transcript?: string;
 }
 
 interface UploadResult {
   incidents: Incident[];
   totalFrames: number;
+  skippedAnalyses?: number; // Duplicate frames that reused a sibling's verdict
+  unanalyzedFrames?: { timestamp: number; error: string; attempts: number }[]; // No verdict even after retries
   processedAt: string;
   metadata: {
     filename: string;
@@ -75,14 +132,15 @@ export function UploadVideoDialog({
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
+  const [scanPreset, setScanPreset] = useState<ScanPreset>("standard");
+  const [provider, setProvider] = useState<ProviderChoice>("default");
+  const [redaction, setRedaction] = useState<RedactionChoice>("none");
+  const [policy, setPolicy] = useState<string>(BUILT_IN_POLICIES[0].id); // Custom policies are selectable through the API
+  const [framePrompt, setFramePrompt] = useState<FramePromptChoice>("default"); // Other prompts are selectable through the API
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [workflowStages, setWorkflowStages] = useState<WorkflowStage[]>([
-    { id: "started", title: "Starting", status: "pending" },
-    { id: "upload", title: "Upload to Storage", status: "pending" },
-    { id: "extract", title: "Frame Extraction", status: "pending" },
-    { id: "process", title: "Frame Processing", status: "pending" },
-    { id: "cleanup", title: "Cleanup", status: "pending" },
-  ]);
+  const [workflowStages, setWorkflowStages] = useState<WorkflowStage[]>(
+    createWorkflowStages()
+  );
 
   // Helper function to update workflow stage status
   const updateStageStatus = (
@@ -136,16 +194,12 @@ export function UploadVideoDialog({
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
       const file = files[0];
-      if (file.type.startsWith("video/")) {
-        setSelectedFile(file);
-        setUploadResult(null);
-        setErrorMessage("");
-
-        // Automatically start processing
-        handleUpload(file);
-      } else {
-        setErrorMessage("Please select a video file");
-      }
+      setSelectedFile(file);
+      setUploadResult(null);
+      setErrorMessage("");
+
+      // Automatically start processing - the container is checked by its contents, not file.type
+      handleUpload(file);
     }
   };
 
@@ -153,33 +207,64 @@ export function UploadVideoDialog({
     const fileToUpload = file || selectedFile;
     if (!fileToUpload) return;
 
+    // Identify the container from its magic bytes - browsers report no type for MKV, TS, etc.
+    const container = await detectFileContainer(fileToUpload);
+    if (!container) {
+      setUploadState("error");
+      setErrorMessage(`"${fileToUpload.name}" is not a recognized video file`);
+      return;
+    }
+
     // Reset workflow stages
-    setWorkflowStages([
-      { id: "started", title: "Starting", status: "in_progress" },
-      { id: "upload", title: "Upload to Storage", status: "pending" },
-      { id: "extract", title: "Frame Extraction", status: "pending" },
-      { id: "process", title: "Frame Processing", status: "pending" },
-      { id: "cleanup", title: "Cleanup", status: "pending" },
-    ]);
+    setWorkflowStages(createWorkflowStages("in_progress"));
 
     try {
       setUploadState("uploading");
-      setProgress(5);
+      setProgress(0);
 
-      const formData = new FormData();
-      formData.append("video", fileToUpload);
+      // Upload straight to blob storage in resumable chunks (0-20% of the bar)
+      const blobUrl = await uploadVideoResumable(fileToUpload, {
+        contentType: container.mimeType,
+        onProgress: ({ loaded, total, percent, resumed }) => {
+          setProgress(Math.floor(percent / 5));
+          const sizeText = `${formatMegabytes(loaded)} of ${formatMegabytes(total)}`;
+          updateStageStatus(
+            "upload",
+            "in_progress",
+            resumed ? `Resuming upload: ${sizeText}` : sizeText
+          );
+        },
+      });
+      updateStageStatus("upload", "completed");
+      updateStageStatus("started", "in_progress");
+
+      // Build per-upload processing options (validated again by the route)
+      const options: ProcessingOptionsInput = {
+        ...SCAN_PRESETS[scanPreset].options,
+        ...(provider !== "default" && { provider }),
+        policy,
+        ...(framePrompt === "split" && {
+          prompts: {
+            "frame-rating": { split: Object.fromEntries(promptVersions("frame-rating").map((version) => [version, 1])) },
+          },
+        }),
+        ...(typeof framePrompt === "number" && { prompts: { "frame-rating": framePrompt } }),
+        ...(redaction !== "none" && { redaction: { enabled: true, defaultAction: redaction } }),
+      };
 
       console.log("[UPLOAD] Sending request to /api/upload-video");
       const response = await fetch("/api/upload-video", {
         method: "POST",
-        body: formData,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blobUrl, filename: fileToUpload.name, options }),
       });
 
       console.log("[UPLOAD] Response status:", response.status);
       console.log("[UPLOAD] Response headers:", Object.fromEntries(response.headers.entries()));
 
       if (!response.ok) {
-        throw new Error("Upload failed");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Upload failed");
       }
 
       // Read the stream
@@ -232,26 +317,59 @@ export function UploadVideoDialog({
               // Update workflow stages based on step
               if (update.step === "started") {
                 updateStageStatus("started", "completed");
-                updateStageStatus("upload", "in_progress");
-              } else if (update.step === "uploaded") {
-                updateStageStatus("upload", "completed");
                 updateStageStatus("extract", "in_progress");
                 setUploadState("processing");
+              } else if (update.step === "probed") {
+                updateStageStatus("extract", "in_progress", update.message);
+              } else if (update.step === "normalizing") {
+                updateStageStatus("extract", "in_progress", update.message);
               } else if (update.step === "extracted") {
-                const framesText = update.totalFrames ? `${update.totalFrames} frames extracted` : "";
+                const framesText = update.skippedAnalyses
+                  ? `${update.totalFrames} distinct frames, ${update.skippedAnalyses} duplicates skipped`
+                  : update.totalFrames ? `${update.totalFrames} frames extracted` : "";
                 updateStageStatus("extract", "completed", framesText);
                 updateStageStatus("process", "in_progress", "Starting frame processing...");
+              } else if (update.step === "retrying") {
+                updateStageStatus("process", "in_progress", update.message);
+              } else if (update.step === "refining" || update.step === "refined") {
+                updateStageStatus("process", "in_progress", update.message);
+              } else if (update.step === "transcribing") {
+                updateStageStatus("process", "completed");
+                updateStageStatus("audio", "in_progress");
+              } else if (update.step === "transcribed") {
+                updateStageStatus("audio", "completed", update.message);
+              } else if (update.step === "clipping") {
+                updateStageStatus("process", "completed", update.message);
+              } else if (update.step === "redacting") {
+                updateStageStatus("process", "completed", update.message);
               } else if (update.step === "cleanup") {
                 updateStageStatus("process", "completed");
+                setWorkflowStages((prev) =>
+                  prev.map((stage) =>
+                    stage.id === "audio" && stage.status === "pending"
+                      ? { ...stage, status: "completed", description: "Skipped" }
+                      : stage
+                  )
+                );
                 updateStageStatus("cleanup", "in_progress");
               }
             } else if (update.type === "frameProcessed") {
               setProgress(update.percent);
               setUploadState("processing");
 
-              // Update frame processing description
-              const processText = `Processing frames (${update.current}/${update.total})`;
-              updateStageStatus("process", "in_progress", processText);
+              // Update frame processing description, noting any provider whose circuit is open
+              const unavailable: string[] = (update.providerHealth ?? [])
+                .filter((health: { state: string }) => health.state === "open")
+                .map((health: { provider: string }) => health.provider);
+              const cacheHits: number = update.cache?.hits ?? 0;
+              const processText = `Processing frames (${update.current}/${update.total})${cacheHits > 0 ? ` · ${cacheHits} cached` : ""}`;
+              updateStageStatus(
+                "process",
+                "in_progress",
+                unavailable.length > 0
+                  ? `${processText} · ${unavailable.join(", ")} unavailable${update.provider ? `, using ${update.provider}` : ""}`
+                  : processText
+              );
             } else if (update.type === "complete") {
               setProgress(100);
               setUploadResult(update.result);
@@ -301,13 +419,7 @@ export function UploadVideoDialog({
       setSelectedFile(null);
       setUploadResult(null);
       setErrorMessage("");
-      setWorkflowStages([
-        { id: "started", title: "Starting", status: "pending" },
-        { id: "upload", title: "Upload to Storage", status: "pending" },
-        { id: "extract", title: "Frame Extraction", status: "pending" },
-        { id: "process", title: "Frame Processing", status: "pending" },
-        { id: "cleanup", title: "Cleanup", status: "pending" },
-      ]);
+      setWorkflowStages(createWorkflowStages());
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
@@ -316,7 +428,7 @@ export function UploadVideoDialog({
 
   const formatTimestamp = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
@@ -335,6 +447,114 @@ export function UploadVideoDialog({
           {/* File Selection */}
           {uploadState === "idle" && (
             <div className="space-y-4">
+              {/* Processing Options */}
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-muted-foreground">Scan depth</p>
+                  <div className="flex gap-1.5">
+                    {(Object.keys(SCAN_PRESETS) as ScanPreset[]).map((preset) => (
+                      <Button
+                        key={preset}
+                        type="button"
+                        size="sm"
+                        variant={scanPreset === preset ? "default" : "outline"}
+                        onClick={() => setScanPreset(preset)}
+                        title={SCAN_PRESETS[preset].description}
+                      >
+                        {SCAN_PRESETS[preset].label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {SCAN_PRESETS[scanPreset].description}
+                  </p>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-muted-foreground">AI provider</p>
+                  <div className="flex gap-1.5">
+                    {PROVIDER_CHOICES.map((choice) => (
+                      <Button
+                        key={choice.id}
+                        type="button"
+                        size="sm"
+                        variant={provider === choice.id ? "default" : "outline"}
+                        onClick={() => setProvider(choice.id)}
+                      >
+                        {choice.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-muted-foreground">Rating policy</p>
+                  <div className="flex gap-1.5">
+                    {LATEST_BUILT_IN_POLICIES.map((choice) => (
+                      <Button
+                        key={choice.id}
+                        type="button"
+                        size="sm"
+                        variant={policy === choice.id ? "default" : "outline"}
+                        onClick={() => setPolicy(choice.id)}
+                        title={choice.description}
+                      >
+                        {choice.id.charAt(0).toUpperCase() + choice.id.slice(1)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-muted-foreground">Frame prompt</p>
+                  <div className="flex gap-1.5">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={framePrompt === "default" ? "default" : "outline"}
+                      onClick={() => setFramePrompt("default")}
+                    >
+                      Default
+                    </Button>
+                    {FRAME_PROMPTS.map((template) => (
+                      <Button
+                        key={template.version}
+                        type="button"
+                        size="sm"
+                        variant={framePrompt === template.version ? "default" : "outline"}
+                        onClick={() => setFramePrompt(template.version)}
+                        title={template.description}
+                      >
+                        v{template.version}
+                        {template.experimental && " (experimental)"}
+                      </Button>
+                    ))}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={framePrompt === "split" ? "default" : "outline"}
+                      onClick={() => setFramePrompt("split")}
+                      title="Draw one version at random for this upload"
+                    >
+                      A/B
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-muted-foreground">Redacted copy</p>
+                  <div className="flex gap-1.5">
+                    {REDACTION_CHOICES.map((choice) => (
+                      <Button
+                        key={choice.id}
+                        type="button"
+                        size="sm"
+                        variant={redaction === choice.id ? "default" : "outline"}
+                        onClick={() => setRedaction(choice.id)}
+                      >
+                        {choice.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
               <div
                 className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
                   isDragging
@@ -349,7 +569,7 @@ export function UploadVideoDialog({
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="video/*"
+                  accept={["video/*", ...ACCEPTED_VIDEO_EXTENSIONS].join(",")}
                   onChange={handleFileSelect}
                   className="hidden"
                   id="video-upload"
@@ -366,7 +586,7 @@ export function UploadVideoDialog({
                     or drag and drop
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    MP4, WebM, or other video formats
+                    MP4, MOV, WebM, MKV, AVI, TS, or other video formats up to 5 GB
                   </div>
                 </label>
               </div>
@@ -381,7 +601,7 @@ export function UploadVideoDialog({
                       {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
                     </p>
                   </div>
-                  <Button onClick={handleUpload} className="sm:shrink-0 w-full sm:w-auto">
+                  <Button onClick={() => handleUpload()} className="sm:shrink-0 w-full sm:w-auto">
                     Start Processing
                   </Button>
                 </div>
@@ -458,6 +678,26 @@ export function UploadVideoDialog({
                     {uploadResult.incidents.length}
                   </p>
                 </div>
+                {!!uploadResult.skippedAnalyses && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      Duplicates Skipped
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {uploadResult.skippedAnalyses}
+                    </p>
+                  </div>
+                )}
+                {!!uploadResult.unanalyzedFrames?.length && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      Incomplete Analysis
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {uploadResult.unanalyzedFrames.length} frames
+                    </p>
+                  </div>
+                )}
               </div>
 
               {uploadResult.incidents.length > 0 && (
@@ -484,11 +724,18 @@ export function UploadVideoDialog({
                             <p className="text-xs text-muted-foreground">
                               Category: {incident.categories}
                             </p>
+                            {incident.transcript && (
+                              <p className="text-xs italic text-foreground">
+                                “{incident.transcript}”
+                              </p>
+                            )}
                           </div>
                           {incident.screenshotUrl && (
                             <div className="size-20 bg-background rounded overflow-hidden">
-                              <img
+                              <BlurredScreenshot
                                 src={incident.screenshotUrl}
+                                blurredSrc={incident.blurredScreenshotUrl}
+                                categories={incident.categories}
                                 alt={`Frame at ${formatTimestamp(incident.timestamp)}`}
                                 className="size-full object-cover"
                               />
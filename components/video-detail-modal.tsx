@@ -4,9 +4,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Button } from "@/components/ui/button"
-import { AlertTriangleIcon, ClockIcon, CheckCircleIcon, XCircleIcon } from "lucide-react"
-import type { FlaggedVideo } from "./video-moderation-grid"
-import { updateVideoStatus, deleteVideo } from "@/lib/video-storage"
+import { AlertTriangleIcon, ClockIcon, CheckCircleIcon, XCircleIcon, MicIcon, DownloadIcon } from "lucide-react"
+import { StoryboardScrubber } from "./storyboard-scrubber"
+import { BlurredScreenshot } from "./blurred-screenshot"
+import type { FlaggedVideo, FlaggedFrame } from "./video-moderation-grid"
+import { updateVideoStatus, deleteVideo, formatBitrate, formatCost, formatTokens } from "@/lib/video-storage"
 
 interface VideoDetailModalProps {
   video: FlaggedVideo
@@ -76,6 +78,33 @@ export function VideoDetailModal({ video, open, onOpenChange, onVideoUpdated }:
                     </Badge>
                   </>
                 )}
+                {video.policyId && (
+                  <>
+                    <span>•</span>
+                    <span title="Rating policy applied to this video">Policy {video.policyId}</span>
+                  </>
+                )}
+                {video.prompts && (
+                  <>
+                    <span>•</span>
+                    <span
+                      title={`Prompts: ${video.prompts.join(", ")}${video.models?.length ? `\nModels: ${video.models.join(", ")}` : ""}`}
+                    >
+                      {video.prompts.find((prompt) => prompt.startsWith("frame-rating@"))}
+                      {video.promptSplit && " (A/B)"}
+                    </span>
+                  </>
+                )}
+                {video.usage && (
+                  <>
+                    <span>•</span>
+                    <span
+                      title={`${video.usage.total.calls} model calls, ${formatTokens(video.usage.total.inputTokens)} input / ${formatTokens(video.usage.total.outputTokens)} output tokens${video.usage.total.unpricedCalls > 0 ? ` (${video.usage.total.unpricedCalls} unpriced)` : ""}`}
+                    >
+                      {formatCost(video.usage.total.costUsd)}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
             <Badge variant="outline" className={getSeverityColor(video.severity)}>
@@ -90,96 +119,187 @@ export function VideoDetailModal({ video, open, onOpenChange, onVideoUpdated }:
             {/* Video Preview */}
             <div>
               <h3 className="text-sm font-semibold text-foreground mb-3">Video Preview</h3>
-              <div className="relative aspect-video overflow-hidden rounded-lg bg-muted border border-border">
-                <img
-                  src={video.thumbnail || "/placeholder.svg"}
-                  alt={video.title}
-                  className="w-full h-full object-cover"
-                />
-              </div>
+              {video.storyboard ? (
+                <StoryboardScrubber storyboard={video.storyboard} segments={video.segments} />
+              ) : (
+                <div className="relative aspect-video overflow-hidden rounded-lg bg-muted border border-border">
+                  <BlurredScreenshot
+                    src={video.thumbnail}
+                    blurredSrc={video.thumbnailBlurred}
+                    categories={video.thumbnailCategories}
+                    alt={video.title}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+              )}
             </div>
 
-            {/* Flagged Frames */}
-            <div>
-              <h3 className="text-sm font-semibold text-foreground mb-3">
-                Flagged Frames ({video.flaggedFrames.length})
-              </h3>
-              <div className="space-y-4">
-                {video.flaggedFrames.map((frame) => (
-                  <div key={frame.id} className="flex gap-4 p-4 rounded-lg border border-border bg-card">
-                    <div className="relative w-32 h-18 flex-shrink-0 overflow-hidden rounded bg-muted border border-border">
-                      <img
-                        src={frame.screenshot || "/placeholder.svg"}
-                        alt={`Frame at ${frame.timestamp}`}
-                        className="w-full h-full object-cover"
-                      />
+            {/* Incomplete Analysis */}
+            {!!video.unanalyzedFrames?.length && (
+              <div className="p-4 rounded-lg border border-slate-500/20 bg-slate-500/10 text-xs space-y-2">
+                <div className="text-sm font-semibold text-foreground">Incomplete analysis</div>
+                <p className="text-muted-foreground">
+                  {video.unanalyzedFrames.length} frame{video.unanalyzedFrames.length !== 1 ? "s" : ""} could
+                  not be analyzed by any AI provider. These moments are unreviewed, not safe.
+                </p>
+                <ul className="space-y-1">
+                  {video.unanalyzedFrames.map((frame, idx) => (
+                    <li key={idx} className="text-muted-foreground">
+                      <span className="font-medium text-foreground">{frame.timestamp}</span> - {frame.error} (
+                      {frame.attempts} attempt{frame.attempts !== 1 ? "s" : ""})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Media Info */}
+            {video.media && (
+              <div>
+                <h3 className="text-sm font-semibold text-foreground mb-3">Media Info</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 rounded-lg border border-border bg-card text-xs">
+                  {[
+                    ["Duration", video.duration],
+                    [
+                      "Resolution",
+                      video.media.width && video.media.height
+                        ? `${video.media.width}×${video.media.height}${video.media.rotation ? ` (rotated ${video.media.rotation}°)` : ""}`
+                        : "Unknown",
+                    ],
+                    ["Frame Rate", video.media.frameRate ? `${video.media.frameRate} fps` : "Unknown"],
+                    ["Bitrate", video.media.bitrate ? formatBitrate(video.media.bitrate) : "Unknown"],
+                    ["Video Codec", video.media.videoCodec ?? "Unknown"],
+                    ["Audio", video.media.hasAudio ? video.media.audioCodec ?? "Yes" : "None"],
+                    ["Container", video.media.container?.split(",")[0] ?? "Unknown"],
+                    [
+                      "File Size",
+                      video.media.sizeBytes ? `${(video.media.sizeBytes / 1024 / 1024).toFixed(1)} MB` : "Unknown",
+                    ],
+                  ].map(([label, value]) => (
+                    <div key={label}>
+                      <div className="text-muted-foreground">{label}</div>
+                      <div className="font-medium text-foreground">{value}</div>
                     </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2 mb-2">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <div className="text-sm font-medium text-foreground">{frame.reason}</div>
-                            {frame.rating && (
-                              <Badge
-                                variant="outline"
-                                className={
-                                  frame.rating === "18+"
-                                    ? "bg-red-500/10 text-red-500 border-red-500/20"
-                                    : "bg-amber-500/10 text-amber-500 border-amber-500/20"
-                                }
-                              >
-                                {frame.rating}
-                              </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Flagged Segments - consecutive flagged frames merged into time ranges */}
+            {video.segments ? (
+              <div>
+                <h3 className="text-sm font-semibold text-foreground mb-3">
+                  Flagged Segments ({video.segments.length})
+                </h3>
+                <div className="space-y-4">
+                  {video.segments.map((segment) => {
+                    const members = video.flaggedFrames.filter((frame) => segment.frameIds.includes(frame.id))
+
+                    return (
+                      <div key={segment.id} className="p-4 rounded-lg border border-border bg-card">
+                        <div className="flex gap-4">
+                          <div className="relative w-32 h-18 flex-shrink-0 overflow-hidden rounded bg-muted border border-border">
+                            {segment.source === "audio" ? (
+                              <div className="w-full h-full flex items-center justify-center">
+                                <MicIcon className="size-6 text-muted-foreground" />
+                              </div>
+                            ) : (
+                              <BlurredScreenshot
+                                src={segment.screenshot}
+                                blurredSrc={segment.blurredScreenshot}
+                                categories={segment.categories}
+                                alt={`Segment at ${segment.startTimestamp}`}
+                                className="w-full h-full object-cover"
+                              />
                             )}
                           </div>
-                          <div className="text-xs text-muted-foreground mb-2">Timestamp: {frame.timestamp}</div>
-                          {frame.categories && (
-                            <div className="flex flex-wrap gap-1.5 mt-2">
-                              {frame.categories.split(", ").map((category, idx) => (
-                                <Badge
-                                  key={idx}
-                                  variant="secondary"
-                                  className="text-xs bg-muted text-muted-foreground border-border"
-                                >
-                                  {category}
-                                </Badge>
-                              ))}
-                            </div>
-                          )}
-                          {frame.categoryReasons && frame.categoryReasons.length > 0 && (
-                            <div className="mt-3 space-y-2">
-                              <div className="text-xs font-semibold text-foreground">Category Details:</div>
-                              {frame.categoryReasons.map((catReason, idx) => (
-                                <div key={idx} className="pl-3 border-l-2 border-border">
-                                  <div className="flex items-center gap-2 mb-1">
-                                    <span className="text-xs font-medium text-foreground">{catReason.category}</span>
-                                    <Badge variant="outline" className="text-xs">
-                                      {Math.round((catReason.confidence / 5) * 100)}%
-                                    </Badge>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-1">
+                                  <div className="text-sm font-medium text-foreground">
+                                    {segment.startTimestamp === segment.endTimestamp
+                                      ? segment.startTimestamp
+                                      : `${segment.startTimestamp} – ${segment.endTimestamp}`}
                                   </div>
-                                  <p className="text-xs text-muted-foreground">{catReason.reason}</p>
+                                  <Badge
+                                    variant="outline"
+                                    className={
+                                      segment.rating === "18+"
+                                        ? "bg-red-500/10 text-red-500 border-red-500/20"
+                                        : "bg-amber-500/10 text-amber-500 border-amber-500/20"
+                                    }
+                                  >
+                                    {segment.rating}
+                                  </Badge>
+                                </div>
+                                {segment.transcript && (
+                                  <blockquote className="text-xs italic text-foreground pl-3 border-l-2 border-border my-2">
+                                    “{segment.transcript}”
+                                  </blockquote>
+                                )}
+                                <div className="flex flex-wrap gap-1.5 mt-2">
+                                  {segment.categories.split(", ").map((category, idx) => (
+                                    <Badge
+                                      key={idx}
+                                      variant="secondary"
+                                      className="text-xs bg-muted text-muted-foreground border-border"
+                                    >
+                                      {category}
+                                    </Badge>
+                                  ))}
                                 </div>
-                              ))}
+                              </div>
+                              <Badge
+                                variant="outline"
+                                className="bg-primary/10 text-primary border-primary/20 whitespace-nowrap"
+                              >
+                                {Math.round(segment.confidence * 100)}% confidence
+                              </Badge>
                             </div>
-                          )}
+                          </div>
                         </div>
-                        <Badge
-                          variant="outline"
-                          className="bg-primary/10 text-primary border-primary/20 whitespace-nowrap"
-                        >
-                          {Math.round(frame.confidence * 100)}% confidence
-                        </Badge>
+                        <details className="mt-3">
+                          <summary className="text-xs text-muted-foreground cursor-pointer">
+                            {members.length} flagged {segment.source === "audio" ? "passage" : "frame"}
+                            {members.length !== 1 ? "s" : ""}
+                          </summary>
+                          <div className="mt-3 space-y-3">
+                            {members.map((frame) => (
+                              <FlaggedFrameRow key={frame.id} frame={frame} />
+                            ))}
+                          </div>
+                        </details>
                       </div>
-                    </div>
-                  </div>
-                ))}
+                    )
+                  })}
+                </div>
               </div>
-            </div>
+            ) : (
+              <div>
+                <h3 className="text-sm font-semibold text-foreground mb-3">
+                  Flagged Frames ({video.flaggedFrames.length})
+                </h3>
+                <div className="space-y-4">
+                  {video.flaggedFrames.map((frame) => (
+                    <FlaggedFrameRow key={frame.id} frame={frame} />
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </ScrollArea>
 
         {/* Actions */}
         <div className="flex items-center justify-end gap-3 pt-4 border-t border-border -mx-6 px-6">
+          {video.redactedVideoUrl && (
+            <Button variant="outline" className="mr-auto" asChild>
+              <a href={video.redactedVideoUrl} download>
+                <DownloadIcon className="size-4 mr-2" />
+                Redacted Video
+              </a>
+            </Button>
+          )}
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
@@ -200,3 +320,149 @@ export function VideoDetailModal({ video, open, onOpenChange, onVideoUpdated }:
     </Dialog>
   )
 }
+
+/**
+ * One flagged frame (or audio passage) with its category details
+ */
+function FlaggedFrameRow({ frame }: { frame: FlaggedFrame }) {
+  return (
+    <div className="flex gap-4 p-4 rounded-lg border border-border bg-card">
+      <div className="relative w-32 h-18 flex-shrink-0 overflow-hidden rounded bg-muted border border-border">
+        {frame.source === "audio" ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <MicIcon className="size-6 text-muted-foreground" />
+          </div>
+        ) : (
+          <BlurredScreenshot
+            src={frame.screenshot}
+            blurredSrc={frame.blurredScreenshot}
+            categories={frame.categories}
+            alt={`Frame at ${frame.timestamp}`}
+            className="w-full h-full object-cover"
+          />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="text-sm font-medium text-foreground">{frame.reason}</div>
+              {frame.rating && (
+                <Badge
+                  variant="outline"
+                  className={
+                    frame.rating === "18+"
+                      ? "bg-red-500/10 text-red-500 border-red-500/20"
+                      : "bg-amber-500/10 text-amber-500 border-amber-500/20"
+                  }
+                >
+                  {frame.rating}
+                </Badge>
+              )}
+              {frame.needsReview && (
+                <Badge variant="outline" className="bg-amber-500/10 text-amber-500 border-amber-500/20">
+                  Providers disagree
+                </Badge>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground mb-2">
+              Timestamp: {frame.startTimestamp ?? frame.timestamp}
+              {frame.endTimestamp && ` – ${frame.endTimestamp}`}
+              {frame.startTimestamp && ` (sampled at ${frame.timestamp})`}
+              {frame.providerVerdicts && frame.providerVerdicts.length > 1
+                ? ` · Consensus of ${frame.providerVerdicts.map((verdict) => verdict.provider).join(", ")}`
+                : frame.provider && ` · Analyzed by ${frame.provider}`}
+              {frame.provenance && (
+                <span title="Prompt versions and models behind this verdict">
+                  {` · ${[...frame.provenance.prompts, ...frame.provenance.models].join(", ")}`}
+                </span>
+              )}
+            </div>
+            {frame.onScreenText && (
+              <div className="text-xs mb-2">
+                <span className="font-semibold text-foreground">On-screen text: </span>
+                <span className="text-muted-foreground whitespace-pre-line">{frame.onScreenText}</span>
+              </div>
+            )}
+            {frame.transcript && (
+              <blockquote className="text-xs italic text-foreground pl-3 border-l-2 border-border mb-2">
+                “{frame.transcript}”
+              </blockquote>
+            )}
+            {frame.clipUrl && (
+              <video
+                src={`${frame.clipUrl}#t=${frame.clipOffset ?? 0}`}
+                poster={frame.blurredScreenshot || undefined}
+                controls
+                preload="none"
+                className="w-full max-w-sm rounded border border-border bg-black mb-2"
+              />
+            )}
+            {frame.categories && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {frame.categories.split(", ").map((category, idx) => (
+                  <Badge
+                    key={idx}
+                    variant="secondary"
+                    className="text-xs bg-muted text-muted-foreground border-border"
+                  >
+                    {category}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {frame.categoryReasons && frame.categoryReasons.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <div className="text-xs font-semibold text-foreground">Category Details:</div>
+                {frame.categoryReasons.map((catReason, idx) => (
+                  <div key={idx} className="pl-3 border-l-2 border-border">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-medium text-foreground">{catReason.category}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {Math.round((catReason.confidence / 5) * 100)}%
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{catReason.reason}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {frame.providerVerdicts && frame.providerVerdicts.length > 1 && (
+              <div className="mt-3 space-y-2">
+                <div className="text-xs font-semibold text-foreground">Provider Verdicts:</div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {frame.providerVerdicts.map((verdict) => (
+                    <div key={verdict.provider} className="p-2 rounded border border-border">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-medium text-foreground">{verdict.provider}</span>
+                        {verdict.model && <span className="text-xs text-muted-foreground">{verdict.model}</span>}
+                        <Badge variant="outline" className="text-xs">
+                          {verdict.rating}
+                        </Badge>
+                      </div>
+                      {verdict.categoryReasons.length > 0 ? (
+                        verdict.categoryReasons.map((catReason, idx) => (
+                          <p key={idx} className="text-xs text-muted-foreground">
+                            <span className="font-medium text-foreground">{catReason.category}:</span> {catReason.reason}
+                          </p>
+                        ))
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Nothing detected</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <Badge
+            variant="outline"
+            className="bg-primary/10 text-primary border-primary/20 whitespace-nowrap"
+          >
+            {Math.round(frame.confidence * 100)}% confidence
+          </Badge>
+        </div>
+      </div>
+    </div>
+  )
+}
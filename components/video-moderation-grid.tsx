@@ -6,6 +6,13 @@ import { Badge } from "@/components/ui/badge"
 import { AlertTriangleIcon, ClockIcon } from "lucide-react"
 import { VideoDetailModal } from "@/components/video-detail-modal"
 import { getVideos } from "@/lib/video-storage"
+import { StoryboardTile } from "@/components/storyboard-scrubber"
+import { useAlwaysBlurCategories } from "@/components/blurred-screenshot"
+import { shouldStartBlurred } from "@/lib/reviewer-settings"
+import type { MediaMetadata } from "@/workflows/steps/metadata"
+import type { Storyboard } from "@/workflows/steps/storyboard"
+import type { UsageSummary } from "@/ai/providers/usage"
+import type { VerdictProvenance } from "@/ai/prompts/registry"
 
 export interface CategoryReason {
   category: string
@@ -14,28 +21,82 @@ export interface CategoryReason {
   reason: string
 }
 
+export interface ProviderVerdictSummary {
+  provider: string
+  model?: string // Model id the provider reported
+  rating: "safe" | "16+" | "18+"
+  categoryReasons: CategoryReason[] // What this provider detected, with its own explanations
+}
+
 export interface FlaggedFrame {
   id: string
   timestamp: string
   confidence: number
   screenshot: string
+  blurredScreenshot?: string // Reviewer-safe variant, shown until revealed
   reason: string
   categories?: string // Comma-separated categories or single category
   rating?: "safe" | "16+" | "18+" // Content rating
   categoryReasons?: CategoryReason[] // Detailed reasons for each category
+  source?: "frame" | "audio" // Where the incident was detected (missing on older records = frame)
+  startTimestamp?: string // Where refinement found the offending content starts (frame incidents)
+  endTimestamp?: string // End of the offending speech, or of the refined content for frames
+  transcript?: string // Offending speech for audio incidents
+  onScreenText?: string // Text read off the frame (captions, signs, overlays)
+  clipUrl?: string // Short MP4 around the incident's segment
+  clipOffset?: number // Seconds into the clip where this incident happens
+  provider?: string // AI provider that produced the verdict (after any fallback)
+  needsReview?: boolean // Consensus providers disagreed on the rating
+  providerVerdicts?: ProviderVerdictSummary[] // Each provider's verdict, in consensus mode
+  provenance?: VerdictProvenance // Prompt versions and models behind the verdict (missing on older records)
+}
+
+export interface FlaggedSegment {
+  id: string
+  source: "frame" | "audio"
+  startTimestamp: string
+  endTimestamp: string
+  startSeconds?: number // Unformatted range, for matching storyboard tiles (missing on older records)
+  endSeconds?: number
+  rating: "safe" | "16+" | "18+" // Peak rating across the member frames
+  confidence: number // Highest member confidence
+  categories: string // Union of member categories
+  screenshot: string // Representative frame
+  blurredScreenshot?: string // Reviewer-safe variant of the representative frame
+  transcript?: string // Offending speech for audio segments
+  clipUrl?: string // Evidence clip with padding either side
+  frameIds: string[] // Member FlaggedFrame ids, in timeline order
+}
+
+export interface UnanalyzedFrame {
+  timestamp: string
+  error: string // Last error after every provider failed
+  attempts: number
 }
 
 export interface FlaggedVideo {
   id: string
   title: string
   thumbnail: string
+  thumbnailBlurred?: string // Reviewer-safe variant of the thumbnail
+  thumbnailCategories?: string // Categories of the thumbnail frame, for the always-blur settings
   uploadDate: string
   duration: string
   severity: "high" | "medium" | "low"
   flagCount: number
   flaggedFrames: FlaggedFrame[]
+  segments?: FlaggedSegment[] // Consecutive flagged frames merged into time ranges (missing on older records)
   status?: "flagged" | "approved" | "removed"
   overallRating?: "safe" | "16+" | "18+" // Overall video rating based on highest frame rating
+  media?: MediaMetadata // ffprobe metadata (missing on older records)
+  storyboard?: Storyboard // Sprite sheet + WebVTT index of the whole video (missing on older records)
+  redactedVideoUrl?: string // Cleaned deliverable, when redaction was requested
+  unanalyzedFrames?: UnanalyzedFrame[] // Frames no provider could analyze, even after retries
+  policyId?: string // Rating policy applied, "id@version" (missing on older records)
+  usage?: UsageSummary // Tokens, latency and cost of the model calls (missing on older records)
+  prompts?: string[] // Prompt versions the run used, e.g. "frame-rating@2" (missing on older records)
+  promptSplit?: string[] // Prompt ids whose version was drawn from an A/B split
+  models?: string[] // Model ids that answered
 }
 
 interface VideoModerationGridProps {
@@ -46,6 +107,7 @@ export function VideoModerationGrid({ onRefreshNeeded }: VideoModerationGridProp
   const [selectedVideo, setSelectedVideo] = useState<FlaggedVideo | null>(null)
   const [videos, setVideos] = useState<FlaggedVideo[]>([])
   const [loading, setLoading] = useState(true)
+  const alwaysBlurCategories = useAlwaysBlurCategories()
 
   // Load videos from localStorage
   useEffect(() => {
@@ -69,6 +131,15 @@ export function VideoModerationGrid({ onRefreshNeeded }: VideoModerationGridProp
     }
   }
 
+  // Never reveal in the grid - reviewers reveal individual frames in the detail modal
+  const getThumbnail = (video: FlaggedVideo) => {
+    const blur = !!video.thumbnail && shouldStartBlurred(video.thumbnailCategories, alwaysBlurCategories)
+    return {
+      src: (blur && video.thumbnailBlurred) || video.thumbnail || "/placeholder.svg",
+      cssBlur: blur && !video.thumbnailBlurred, // Older records have no blurred variant
+    }
+  }
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case "high":
@@ -105,11 +176,22 @@ export function VideoModerationGrid({ onRefreshNeeded }: VideoModerationGridProp
             onClick={() => setSelectedVideo(video)}
           >
             <div className="relative aspect-video overflow-hidden bg-muted">
-              <img
-                src={video.thumbnail || "/placeholder.svg"}
-                alt={video.title}
-                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
-              />
+              {!video.thumbnail && video.storyboard ? (
+                // Safe videos have no flagged screenshot - show the middle of the storyboard instead
+                <StoryboardTile
+                  storyboard={video.storyboard}
+                  seconds={video.storyboard.durationSeconds / 2}
+                  className="w-full h-full group-hover:scale-105 transition-transform duration-200"
+                />
+              ) : (
+                <img
+                  src={getThumbnail(video).src}
+                  alt={video.title}
+                  className={`w-full h-full object-cover group-hover:scale-105 transition-transform duration-200 ${
+                    getThumbnail(video).cssBlur ? "blur-xl" : ""
+                  }`}
+                />
+              )}
               <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs px-2 py-1 rounded">
                 {video.duration}
               </div>
@@ -130,6 +212,16 @@ export function VideoModerationGrid({ onRefreshNeeded }: VideoModerationGridProp
                     {video.overallRating}
                   </Badge>
                 )}
+                {video.flaggedFrames.some((frame) => frame.needsReview) && (
+                  <Badge variant="outline" className="bg-amber-500/10 text-amber-500 border-amber-500/20">
+                    Needs review
+                  </Badge>
+                )}
+                {!!video.unanalyzedFrames?.length && (
+                  <Badge variant="outline" className="bg-slate-500/10 text-slate-300 border-slate-500/20">
+                    Incomplete analysis
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="p-4">
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts
+ * Validates the rating policies up front so a broken RATING_POLICY_PATH fails the deploy, not an upload
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { loadRatingPolicies } = await import("./lib/rating-policy-loader");
+    await loadRatingPolicies();
+  }
+}
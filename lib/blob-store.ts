@@ -0,0 +1,98 @@
+// No top-level imports of Node.js modules - the workflow file imports this module
+// Dynamic imports are used inside the helpers to avoid workflow serialization issues
+import type { Readable } from "stream";
+
+/**
+ * Options the workflow passes when storing a blob (the subset of @vercel/blob's put it uses)
+ */
+export interface PutBlobOptions {
+  access: "public";
+  contentType?: string;
+  addRandomSuffix?: boolean;
+  multipart?: boolean; // Upload large bodies in parts (Vercel Blob only)
+}
+
+/**
+ * Whether blobs live on the local disk instead of Vercel Blob
+ * BLOB_BACKEND=fs is meant for offline runs such as `pnpm e2e` - uploads from the browser still need Vercel Blob
+ */
+export function isFsBlobBackend(): boolean {
+  return process.env.BLOB_BACKEND === "fs";
+}
+
+/**
+ * Directory the fs backend keeps blobs in (BLOB_FS_DIR, default <tmpdir>/blob-store)
+ */
+export async function getFsBlobDir(): Promise<string> {
+  const os = await import("os");
+  const path = await import("path");
+  return process.env.BLOB_FS_DIR || path.join(os.tmpdir(), "blob-store");
+}
+
+/**
+ * Base URL the fs backend's blobs are served from by app/api/blob (BLOB_FS_BASE_URL)
+ */
+export function getFsBlobBaseUrl(): string {
+  return (process.env.BLOB_FS_BASE_URL || "http://localhost:3000/api/blob").replace(/\/+$/, "");
+}
+
+/**
+ * Resolve a blob pathname inside the fs backend's directory
+ * @returns null when the pathname would escape the directory
+ */
+export async function fsBlobPath(pathname: string): Promise<string | null> {
+  const path = await import("path");
+  const root = path.resolve(await getFsBlobDir());
+  const filePath = path.resolve(root, pathname);
+
+  return filePath.startsWith(root + path.sep) ? filePath : null;
+}
+
+/**
+ * Store a blob - Vercel Blob by default, the local disk with BLOB_BACKEND=fs
+ * @returns The public URL and pathname of the stored blob
+ */
+export async function put(
+  pathname: string,
+  body: Buffer | string | Readable,
+  options: PutBlobOptions
+): Promise<{ url: string; pathname: string }> {
+  if (!isFsBlobBackend()) {
+    const blob = await import("@vercel/blob");
+    return blob.put(pathname, body, options);
+  }
+
+  const { mkdir, writeFile } = await import("fs/promises");
+  const path = await import("path");
+
+  // Same shape as Vercel Blob's suffix: name-<random>.ext
+  const stored = options.addRandomSuffix
+    ? pathname.replace(/(\.[^./]*)?$/, (extension) => `-${Math.random().toString(36).slice(2, 10)}${extension}`)
+    : pathname;
+  const filePath = await fsBlobPath(stored);
+  if (!filePath) throw new Error(`Invalid blob pathname: ${pathname}`);
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, Buffer.isBuffer(body) ? new Uint8Array(body) : body); // Streams are written as they arrive
+
+  return { url: `${getFsBlobBaseUrl()}/${stored}`, pathname: stored };
+}
+
+/**
+ * Delete a blob by URL - URLs outside the fs backend's base URL are ignored in fs mode
+ */
+export async function del(url: string): Promise<void> {
+  if (!isFsBlobBackend()) {
+    const blob = await import("@vercel/blob");
+    return blob.del(url);
+  }
+
+  const prefix = `${getFsBlobBaseUrl()}/`;
+  if (!url.startsWith(prefix)) return;
+
+  const filePath = await fsBlobPath(decodeURIComponent(url.slice(prefix.length)));
+  if (!filePath) return;
+
+  const { rm } = await import("fs/promises");
+  await rm(filePath, { force: true });
+}
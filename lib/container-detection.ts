@@ -0,0 +1,107 @@
+/**
+ * Video containers we can recognize from their first bytes
+ */
+export type ContainerFormat =
+  | "mp4"
+  | "mov"
+  | "3gp"
+  | "webm"
+  | "mkv"
+  | "avi"
+  | "flv"
+  | "mpegts"
+  | "mpegps"
+  | "ogg"
+  | "asf";
+
+export interface DetectedContainer {
+  format: ContainerFormat;
+  mimeType: string;
+  extension: string;
+}
+
+const CONTAINERS: Record<ContainerFormat, Omit<DetectedContainer, "format">> = {
+  mp4: { mimeType: "video/mp4", extension: "mp4" },
+  mov: { mimeType: "video/quicktime", extension: "mov" },
+  "3gp": { mimeType: "video/3gpp", extension: "3gp" },
+  webm: { mimeType: "video/webm", extension: "webm" },
+  mkv: { mimeType: "video/x-matroska", extension: "mkv" },
+  avi: { mimeType: "video/x-msvideo", extension: "avi" },
+  flv: { mimeType: "video/x-flv", extension: "flv" },
+  mpegts: { mimeType: "video/mp2t", extension: "ts" },
+  mpegps: { mimeType: "video/mpeg", extension: "mpg" },
+  ogg: { mimeType: "video/ogg", extension: "ogv" },
+  asf: { mimeType: "video/x-ms-asf", extension: "wmv" },
+};
+
+/**
+ * How many leading bytes detectContainer needs to see
+ */
+export const DETECTION_BYTES = 4096;
+
+// Extensions offered by the file picker, since browsers report no MIME type for several of these
+export const ACCEPTED_VIDEO_EXTENSIONS = Object.values(CONTAINERS).map(
+  (container) => `.${container.extension}`
+);
+
+function ascii(bytes: ArrayLike<number>, start: number, length: number): string {
+  let text = "";
+  for (let i = start; i < Math.min(start + length, bytes.length); i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function startsWith(bytes: ArrayLike<number>, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function detectFormat(bytes: ArrayLike<number>): ContainerFormat | null {
+  // ISO base media (MP4/MOV/3GP): a "ftyp" box whose major brand tells them apart
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === "qt  ") return "mov";
+    if (brand.startsWith("3g")) return "3gp";
+    return "mp4";
+  }
+
+  // Pre-ftyp QuickTime files start straight into an atom
+  if (["moov", "mdat", "wide", "free", "skip"].includes(ascii(bytes, 4, 4))) {
+    return "mov";
+  }
+
+  // EBML header - Matroska, or WebM when the DocType says so
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return ascii(bytes, 0, 64).includes("webm") ? "webm" : "mkv";
+  }
+
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "AVI ") return "avi";
+  if (ascii(bytes, 0, 3) === "FLV") return "flv";
+  if (ascii(bytes, 0, 4) === "OggS") return "ogg";
+  if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) return "asf";
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0xba])) return "mpegps";
+
+  // MPEG-TS sync byte every 188 bytes, or every 192 for M2TS (4-byte timecode prefix)
+  if (bytes[0] === 0x47 && bytes[188] === 0x47) return "mpegts";
+  if (bytes[4] === 0x47 && bytes[196] === 0x47) return "mpegts";
+
+  return null;
+}
+
+/**
+ * Identify a video container from its magic bytes, regardless of filename or reported MIME type
+ * @param bytes - The first DETECTION_BYTES bytes of the file (fewer is fine for most formats)
+ * @returns The container, or null if the bytes don't look like a video we know
+ */
+export function detectContainer(bytes: ArrayLike<number>): DetectedContainer | null {
+  const format = detectFormat(bytes);
+  return format ? { format, ...CONTAINERS[format] } : null;
+}
+
+/**
+ * Detect the container of a browser File by reading only its first bytes
+ */
+export async function detectFileContainer(file: Blob): Promise<DetectedContainer | null> {
+  const head = await file.slice(0, DETECTION_BYTES).arrayBuffer();
+  return detectContainer(new Uint8Array(head));
+}
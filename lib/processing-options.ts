@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { DEFAULT_SAMPLING_OPTIONS } from "../workflows/steps/frame-sampling";
+import { DEFAULT_REFINEMENT_OPTIONS } from "../workflows/steps/refinement";
+import { PROMPT_IDS } from "../ai/prompts/registry";
+
+/**
+ * Hard caps - requests above these are rejected, not clamped,
+ * so a caller never silently gets a shallower scan than it asked for
+ */
+export const MAX_FRAMES_CAP = 1000;
+export const MAX_CONCURRENCY_CAP = 20;
+
+// Schema for how frames are sampled from the video
+export const samplingOptionsSchema = z.object({
+  mode: z.enum(["interval", "scene"]).default(DEFAULT_SAMPLING_OPTIONS.mode),
+  intervalSeconds: z.number().min(0.5).max(300).default(DEFAULT_SAMPLING_OPTIONS.intervalSeconds),
+  sceneThreshold: z.number().min(0.01).max(1).default(DEFAULT_SAMPLING_OPTIONS.sceneThreshold),
+  minIntervalSeconds: z.number().min(0.1).max(300).default(DEFAULT_SAMPLING_OPTIONS.minIntervalSeconds),
+  maxIntervalSeconds: z.number().min(0.5).max(600).default(DEFAULT_SAMPLING_OPTIONS.maxIntervalSeconds),
+}).refine((sampling) => sampling.minIntervalSeconds <= sampling.maxIntervalSeconds, {
+  message: "minIntervalSeconds must not exceed maxIntervalSeconds",
+  path: ["minIntervalSeconds"],
+});
+
+// Schema for the part of the video to analyze (seconds from the start)
+export const timeRangeSchema = z.object({
+  startSeconds: z.number().min(0).default(0),
+  endSeconds: z.number().positive().optional(),
+}).refine((range) => range.endSeconds === undefined || range.endSeconds > range.startSeconds, {
+  message: "endSeconds must be greater than startSeconds",
+  path: ["endSeconds"],
+});
+
+// Schema for perceptual-hash deduplication of near-identical frames
+export const dedupeOptionsSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxDistance: z.number().int().min(0).max(32).default(6), // Hamming distance (of 64 bits) still treated as a duplicate
+});
+
+// Schema for dense re-sampling around flagged frames to find where the content starts and ends
+export const refinementOptionsSchema = z.object({
+  enabled: z.boolean().default(DEFAULT_REFINEMENT_OPTIONS.enabled),
+  fps: z.number().min(0.5).max(10).default(DEFAULT_REFINEMENT_OPTIONS.fps),
+  windowSeconds: z.number().min(0.5).max(60).default(DEFAULT_REFINEMENT_OPTIONS.windowSeconds),
+  maxDenseFrames: z.number().int().min(1).max(MAX_FRAMES_CAP).default(DEFAULT_REFINEMENT_OPTIONS.maxDenseFrames),
+});
+
+// Schema for the short MP4s cut around each flagged segment before the original is deleted
+export const evidenceClipOptionsSchema = z.object({
+  enabled: z.boolean().default(true),
+  paddingBeforeSeconds: z.number().min(0).max(30).default(2),
+  paddingAfterSeconds: z.number().min(0).max(30).default(2),
+  maxClipSeconds: z.number().min(1).max(120).default(30),
+  maxClips: z.number().int().min(1).max(100).default(20),
+});
+
+// Schema for re-queuing frames the AI could not analyze (every provider failed)
+export const retryOptionsSchema = z.object({
+  maxRetries: z.number().int().min(0).max(5).default(2),
+  backoffSeconds: z.number().min(1).max(300).default(10), // Doubles after every round
+});
+
+// Schema for the optional redacted deliverable (flagged segments blurred, blacked out or cut)
+const redactionActionSchema = z.enum(["blur", "blackout", "cut"]);
+
+export const redactionOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  defaultAction: redactionActionSchema.default("blur"),
+  actions: z.record(z.string(), redactionActionSchema).default({}), // Per category label, e.g. { gore: "cut" }
+  muteProfanity: z.boolean().default(true),
+  paddingSeconds: z.number().min(0).max(10).default(1),
+});
+
+// Schema for querying several providers per frame and merging their verdicts
+const providerSchema = z.enum(["openai", "gemini", "local"]);
+
+export const consensusOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  providers: z.array(providerSchema).min(2).default(["gemini", "openai"]),
+  strategy: z.enum(["max", "majority", "weighted"]).default("max"),
+  weights: z.record(providerSchema, z.number().positive()).default({}), // "weighted" only - missing providers weigh 1
+});
+
+// Schema for analyzing windows of consecutive frames in one call instead of one frame per call
+export const batchOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Frames per call for each provider - the largest sets how frames are grouped, smaller ones split it
+  windowSizes: z.record(providerSchema, z.number().int().min(1).max(16))
+    .default({ gemini: 8, openai: 4, local: 8 }),
+});
+
+// Schema for choosing a prompt version: a number pins it, a split draws one per upload by weight
+export const promptRequestSchema = z.union([
+  z.number().int().min(1),
+  z.object({
+    split: z.record(z.string().regex(/^\d+$/, "Split keys are prompt versions"), z.number().min(0)),
+  }),
+]);
+
+// Per-upload processing options, sent as the `options` field of the start route's JSON body
+export const processingOptionsSchema = z.object({
+  sampling: samplingOptionsSchema.default({}),
+  maxFrames: z.number().int().min(1).max(MAX_FRAMES_CAP).default(200),
+  timeRange: timeRangeSchema.optional(),
+  dedupe: dedupeOptionsSchema.default({}),
+  refinement: refinementOptionsSchema.default({}),
+  evidenceClips: evidenceClipOptionsSchema.default({}),
+  redaction: redactionOptionsSchema.default({}),
+  retry: retryOptionsSchema.default({}),
+  normalize: z.enum(["auto", "always", "never"]).default("auto"), // Transcode to a canonical proxy first
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY_CAP).default(10), // Frames in flight per run - the scheduler may send fewer calls
+  provider: providerSchema.optional(), // Falls back to AI_PROVIDER when omitted
+  consensus: consensusOptionsSchema.default({}),
+  batch: batchOptionsSchema.default({}), // Ignored in consensus mode
+  policy: z.string().min(1).default("default"), // Rating policy, "id" (latest version) or "id@version"
+  prompts: z.record(z.enum(PROMPT_IDS), promptRequestSchema).default({}), // e.g. { "frame-rating": { split: { "1": 1, "2": 1 } } }
+  transcribeAudio: z.boolean().default(true), // Transcribe and moderate spoken dialogue
+  extractText: z.boolean().default(true), // Read and moderate on-screen text in each frame
+  cache: z.boolean().default(true), // Reuse cached frame verdicts (see VERDICT_CACHE); off forces fresh calls
+});
+
+export type ProcessingOptions = z.infer<typeof processingOptionsSchema>;
+export type ProcessingOptionsInput = z.input<typeof processingOptionsSchema>;
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = processingOptionsSchema.parse({});
+
+/**
+ * Named presets offered in the upload dialog
+ */
+export const SCAN_PRESETS = {
+  quick: {
+    label: "Quick",
+    description: "Fixed 15s interval, up to 40 frames, images only",
+    options: {
+      sampling: { mode: "interval", intervalSeconds: 15 },
+      maxFrames: 40,
+      transcribeAudio: false,
+      extractText: false,
+      refinement: { enabled: false },
+      evidenceClips: { enabled: false },
+    },
+  },
+  standard: {
+    label: "Standard",
+    description: "Scene cuts, at least every 5s",
+    options: {},
+  },
+  exhaustive: {
+    label: "Exhaustive",
+    description: "Scene cuts, at least every 2s, up to 1000 frames",
+    options: {
+      sampling: { mode: "scene", minIntervalSeconds: 0.5, maxIntervalSeconds: 2, sceneThreshold: 0.2 },
+      maxFrames: MAX_FRAMES_CAP,
+      dedupe: { maxDistance: 2 }, // Only skip frames that are practically identical
+      refinement: { fps: 4, maxDenseFrames: 400 },
+    },
+  },
+} satisfies Record<string, { label: string; description: string; options: ProcessingOptionsInput }>;
+
+export type ScanPreset = keyof typeof SCAN_PRESETS;
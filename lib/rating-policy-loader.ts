@@ -0,0 +1,58 @@
+import {
+  BUILT_IN_POLICIES,
+  findRatingPolicy,
+  policyRef,
+  ratingPolicySchema,
+  type RatingPolicy,
+} from "./rating-policy";
+
+let cachedPolicies: RatingPolicy[] | null = null;
+
+/**
+ * Load every available rating policy: the built-ins plus the file at RATING_POLICY_PATH
+ *
+ * The file is a JSON array of policy documents (see lib/rating-policy.ts), e.g.
+ *   [{ "id": "kids", "version": 1, "defaultThreshold": 2, "tiers": { ... }, "severity": { ... } }]
+ * An invalid file or a duplicate "id@version" throws, so a bad policy stops startup
+ * instead of quietly rating videos differently.
+ */
+export async function loadRatingPolicies(): Promise<RatingPolicy[]> {
+  if (cachedPolicies) return cachedPolicies;
+
+  const policyPath = process.env.RATING_POLICY_PATH;
+  if (!policyPath) {
+    cachedPolicies = BUILT_IN_POLICIES;
+    return cachedPolicies;
+  }
+
+  const { readFile } = await import("fs/promises");
+  const documents = JSON.parse(await readFile(policyPath, "utf8")) as unknown;
+
+  const parsed = ratingPolicySchema.array().safeParse(documents);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid rating policy file ${policyPath}: ${issues}`);
+  }
+
+  const policies = [...BUILT_IN_POLICIES, ...parsed.data];
+  const refs = policies.map(policyRef);
+  const duplicate = refs.find((ref, i) => refs.indexOf(ref) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid rating policy file ${policyPath}: ${duplicate} is defined twice`);
+  }
+
+  cachedPolicies = policies;
+  console.log(`Loaded rating policies: ${refs.join(", ")}`);
+  return cachedPolicies;
+}
+
+/**
+ * Resolve a per-upload policy reference
+ * @param ref - "id" (latest version) or "id@version"
+ * @returns The policy, or null if no such policy is loaded
+ */
+export async function resolveRatingPolicy(ref: string): Promise<RatingPolicy | null> {
+  return findRatingPolicy(ref, await loadRatingPolicies()) ?? null;
+}
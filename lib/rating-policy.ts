@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { MODERATION_CATEGORIES } from "../ai/ocr/categories";
+
+// Category keys as they appear in ContentAnalysis
+export const RATING_CATEGORIES: string[] = MODERATION_CATEGORIES.map((category) => category.key);
+
+const ratingSchema = z.enum(["16+", "18+"]);
+
+// Each category's tier from the registry, before policy overrides
+const DEFAULT_TIERS = Object.fromEntries(
+  MODERATION_CATEGORIES.map((category) => [category.key, category.tier])
+) as Record<string, "none" | "16+" | "18+">;
+
+// Minimum counts for a severity level - meeting any one of them is enough
+const severityLevelSchema = z.object({
+  incidents: z.number().int().min(1).optional(),
+  eighteenPlus: z.number().int().min(1).optional(),
+  highConfidence: z.number().int().min(1).optional(),
+});
+
+/**
+ * A versioned, declarative rating policy
+ *
+ * - thresholds: confidence (1-5) at which a detection counts, per category
+ * - tiers: overrides of the rating a category carries ("none" = recorded but never rated);
+ *   the parsed policy lists every category, so the stored document is self-contained
+ * - flagRatings: ratings that turn a frame or line into an incident
+ * - severity: how a video's incidents roll up to high / medium / low
+ */
+export const ratingPolicySchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Policy ids are lowercase words joined by dashes"),
+  version: z.number().int().min(1),
+  description: z.string().default(""),
+  defaultThreshold: z.number().min(1).max(5).default(3),
+  thresholds: z.record(z.string(), z.number().min(1).max(5)).default({}),
+  tiers: z.record(z.string(), z.enum(["none", "16+", "18+"])).default({}),
+  flagRatings: z.array(ratingSchema).min(1).default(["16+", "18+"]),
+  severity: z.object({
+    highConfidence: z.number().min(0).max(1).default(0.9), // Incident confidence (0-1) above which it counts as high-confidence
+    high: severityLevelSchema,
+    medium: severityLevelSchema,
+  }),
+}).superRefine((policy, ctx) => {
+  const unknown = [...Object.keys(policy.thresholds), ...Object.keys(policy.tiers)]
+    .filter((category) => !RATING_CATEGORIES.includes(category));
+
+  unknown.forEach((category) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown category "${category}"` })
+  );
+}).transform((policy) => ({
+  ...policy,
+  tiers: { ...DEFAULT_TIERS, ...policy.tiers },
+}));
+
+export type RatingPolicy = z.infer<typeof ratingPolicySchema>;
+export type RatingPolicyInput = z.input<typeof ratingPolicySchema>;
+
+// Categories each published version of the built-in policies rates - categories added to the
+// registry later are recorded but stay unrated under them, until a new version lists them
+const V1_CATEGORIES = [
+  "cursing",
+  "moderate_violence",
+  "strong_language",
+  "mild_sexual_content",
+  "nudity",
+  "drug_use",
+  "rape",
+  "murder",
+  "stabbing",
+  "gore",
+  "extreme_profanity",
+  "disturbing_themes",
+];
+const V2_CATEGORIES = [...V1_CATEGORIES, "weapons", "gambling", "self_harm", "hate_symbols", "brand_logos"];
+
+/**
+ * Tier overrides that leave every category outside `categories` unrated
+ */
+function unratedOutside(categories: string[]): Record<string, "none"> {
+  return Object.fromEntries(
+    RATING_CATEGORIES.filter((category) => !categories.includes(category)).map((category) => [category, "none"])
+  );
+}
+
+const DEFAULT_SEVERITY = {
+  high: { eighteenPlus: 2, highConfidence: 5 },
+  medium: { incidents: 3, highConfidence: 2 },
+};
+
+const STRICT_SEVERITY = {
+  highConfidence: 0.8,
+  high: { eighteenPlus: 1, highConfidence: 3 },
+  medium: { incidents: 1 },
+};
+
+/**
+ * Policies that ship with the app - RATING_POLICY_PATH adds more on the server
+ * Never edit a published version; add a new one so old results stay reproducible.
+ */
+export const BUILT_IN_POLICIES: RatingPolicy[] = ([
+  {
+    id: "default",
+    version: 1,
+    description: "Original thresholds: detections count at confidence 3",
+    tiers: unratedOutside(V1_CATEGORIES),
+    severity: DEFAULT_SEVERITY,
+  },
+  {
+    id: "strict",
+    version: 1,
+    description: "Counts weaker detections and escalates sooner, for takedown review queues",
+    defaultThreshold: 2,
+    tiers: { ...unratedOutside(V1_CATEGORIES), mild_sexual_content: "18+" },
+    severity: STRICT_SEVERITY,
+  },
+  {
+    id: "default",
+    version: 2,
+    description: "Original thresholds, also rating weapons, gambling, self-harm and hate symbols",
+    tiers: unratedOutside(V2_CATEGORIES),
+    severity: DEFAULT_SEVERITY,
+  },
+  {
+    id: "strict",
+    version: 2,
+    description: "Counts weaker detections and escalates sooner, also rating weapons, gambling, self-harm and hate symbols",
+    defaultThreshold: 2,
+    tiers: { ...unratedOutside(V2_CATEGORIES), mild_sexual_content: "18+" },
+    severity: STRICT_SEVERITY,
+  },
+] satisfies RatingPolicyInput[]).map((policy) => ratingPolicySchema.parse(policy));
+
+/**
+ * Stable reference stored with every result, e.g. "default@1"
+ */
+export function policyRef(policy: Pick<RatingPolicy, "id" | "version">): string {
+  return `${policy.id}@${policy.version}`;
+}
+
+/**
+ * Find a policy by "id" (latest version) or "id@version"
+ */
+export function findRatingPolicy(ref: string, policies: RatingPolicy[]): RatingPolicy | undefined {
+  const [id, version] = ref.split("@");
+
+  return policies
+    .filter((policy) => policy.id === id && (version === undefined || String(policy.version) === version))
+    .sort((a, b) => b.version - a.version)[0];
+}
+
+// What `policy: "default"` resolves to
+export const DEFAULT_RATING_POLICY = findRatingPolicy("default", BUILT_IN_POLICIES) as RatingPolicy;
+
+/**
+ * Confidence (1-5) at which a detection in this category counts
+ */
+export function categoryThreshold(policy: RatingPolicy, category: string): number {
+  return policy.thresholds[category] ?? policy.defaultThreshold;
+}
+
+/**
+ * Whether a rating turns a frame, text or transcript line into an incident
+ */
+export function isFlaggedRating(
+  rating: "safe" | "16+" | "18+" | null,
+  policy: RatingPolicy = DEFAULT_RATING_POLICY
+): boolean {
+  return rating !== null && rating !== "safe" && policy.flagRatings.includes(rating);
+}
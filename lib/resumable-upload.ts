@@ -0,0 +1,300 @@
+import {
+  createMultipartUpload,
+  uploadPart,
+  completeMultipartUpload,
+} from "@vercel/blob/client";
+import {
+  BlobError,
+  BlobRequestAbortedError,
+  BlobServiceNotAvailable,
+  BlobServiceRateLimited,
+  BlobUnknownError,
+} from "@vercel/blob";
+
+const STORAGE_KEY = "upload_sessions";
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024 * 1024; // 5 GB
+
+// Abandoned multipart uploads aren't kept forever - after this a session starts over instead of resuming
+export const MAX_SESSION_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const PART_SIZE = 8 * 1024 * 1024; // Blob multipart parts must be at least 5 MB (except the last)
+const PART_CONCURRENCY = 3;
+const PART_RETRIES = 3;
+
+/**
+ * Keep an upload's name readable but safe for a blob pathname, a temp file and a shell command
+ */
+export function safeUploadName(filename: string): string {
+  return filename.replace(/[^\w.-]+/g, "_");
+}
+
+interface UploadedPart {
+  etag: string;
+  partNumber: number;
+}
+
+/**
+ * A multipart upload in progress, persisted so a retry or page reload can resume it
+ */
+interface UploadSession {
+  pathname: string;
+  key: string;
+  uploadId: string;
+  token: string;
+  validUntil: number;
+  createdAt: number;
+  signature: string; // Issued by the token route with the pathname - required to renew the token
+  parts: UploadedPart[];
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+  resumed: boolean; // True when some parts came from an earlier attempt
+}
+
+/**
+ * Identify a file across attempts without reading its contents
+ */
+function fingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function getSessions(): Record<string, UploadSession> {
+  if (typeof window === "undefined") return {}; // SSR safety
+
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (error) {
+    console.error("Error parsing upload sessions from localStorage:", error);
+    return {};
+  }
+}
+
+/**
+ * Forget sessions that can no longer be resumed - expired, or saved before sessions were signed
+ */
+function pruneSessions(): void {
+  const sessions = getSessions();
+  const live = Object.entries(sessions).filter(
+    ([, session]) => session.signature && Date.now() - session.createdAt < MAX_SESSION_AGE_MS
+  );
+
+  if (live.length !== Object.keys(sessions).length) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(live)));
+  }
+}
+
+function saveSession(id: string, session: UploadSession | null): void {
+  const sessions = getSessions();
+
+  if (session) {
+    sessions[id] = session;
+  } else {
+    delete sessions[id];
+  }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+}
+
+interface IssuedToken {
+  pathname: string;
+  token: string;
+  validUntil: number;
+  createdAt: number;
+  signature: string;
+}
+
+/**
+ * Ask the server for a client token (optionally to renew an existing session's)
+ * @returns null when the server no longer accepts the session
+ */
+async function requestToken(file: File): Promise<IssuedToken>;
+async function requestToken(file: File, session: UploadSession): Promise<IssuedToken | null>;
+async function requestToken(file: File, session?: UploadSession): Promise<IssuedToken | null> {
+  const response = await fetch("/api/upload-video/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      filename: file.name,
+      size: file.size,
+      session: session && { pathname: session.pathname, createdAt: session.createdAt, signature: session.signature },
+    }),
+  });
+
+  if (session && response.status === 403) return null;
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Failed to prepare upload");
+  }
+
+  return (await response.json()) as IssuedToken;
+}
+
+/**
+ * Whether a failed blob call is worth trying again with the same session
+ * The blob client already retries transient errors itself; anything else it gives up on (an expired
+ * or unknown upload, a rejected token) will fail the same way every time.
+ */
+function isRetryable(error: unknown): boolean {
+  if (
+    error instanceof BlobServiceNotAvailable ||
+    error instanceof BlobServiceRateLimited ||
+    error instanceof BlobUnknownError
+  ) {
+    return true;
+  }
+  return !(error instanceof BlobError);
+}
+
+/**
+ * Retry a part upload with exponential backoff
+ */
+async function withRetries<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= PART_RETRIES || !isRetryable(error)) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Upload a video straight to blob storage in resumable chunks
+ *
+ * Completed parts are recorded in localStorage, so calling this again with the
+ * same file (after a network drop, a closed tab or a failed workflow) only
+ * uploads the parts that are still missing.
+ *
+ * @returns Public URL of the uploaded blob
+ */
+export async function uploadVideoResumable(
+  file: File,
+  options: {
+    onProgress?: (progress: UploadProgress) => void;
+    signal?: AbortSignal;
+    contentType?: string; // Detected from the file's magic bytes - browsers often report none
+  } = {}
+): Promise<string> {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`File is too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024 / 1024} GB)`);
+  }
+
+  pruneSessions();
+
+  const id = fingerprint(file);
+  const contentType = options.contentType || file.type || "application/octet-stream";
+  let session: UploadSession | null = getSessions()[id] ?? null;
+
+  if (session && session.validUntil <= Date.now() + 60_000) {
+    // Token expired (or about to) - get a fresh one for the same pathname and keep the parts
+    const renewed = await requestToken(file, session);
+    session = renewed ? { ...session, token: renewed.token, validUntil: renewed.validUntil } : null;
+    saveSession(id, session);
+  }
+
+  const resumed = session !== null && session.parts.length > 0;
+
+  if (!session) {
+    const { pathname, token, validUntil, createdAt, signature } = await requestToken(file);
+    const { key, uploadId } = await createMultipartUpload(pathname, {
+      access: "public",
+      token,
+      contentType,
+      abortSignal: options.signal,
+    });
+
+    session = { pathname, key, uploadId, token, validUntil, createdAt, signature, parts: [] };
+    saveSession(id, session);
+  }
+
+  const activeSession = session;
+  const partCount = Math.max(1, Math.ceil(file.size / PART_SIZE));
+  const done = new Set(activeSession.parts.map((part) => part.partNumber));
+  const inFlight = new Map<number, number>(); // partNumber -> bytes sent so far
+
+  const partBytes = (partNumber: number) =>
+    Math.min(PART_SIZE, file.size - (partNumber - 1) * PART_SIZE);
+
+  const reportProgress = () => {
+    let loaded = 0;
+    done.forEach((partNumber) => (loaded += partBytes(partNumber)));
+    inFlight.forEach((bytes) => (loaded += bytes));
+
+    options.onProgress?.({
+      loaded,
+      total: file.size,
+      percent: file.size > 0 ? Math.round((loaded / file.size) * 100) : 100,
+      resumed,
+    });
+  };
+
+  reportProgress();
+
+  const pending = Array.from({ length: partCount }, (_, i) => i + 1).filter(
+    (partNumber) => !done.has(partNumber)
+  );
+
+  // Upload missing parts, a few at a time, persisting each one as it lands
+  const worker = async () => {
+    while (pending.length > 0) {
+      const partNumber = pending.shift() as number;
+      const start = (partNumber - 1) * PART_SIZE;
+      const body = file.slice(start, start + PART_SIZE);
+
+      const part = await withRetries(
+        () =>
+          uploadPart(activeSession.pathname, body, {
+            access: "public",
+            token: activeSession.token,
+            key: activeSession.key,
+            uploadId: activeSession.uploadId,
+            partNumber,
+            abortSignal: options.signal,
+            onUploadProgress: ({ loaded }) => {
+              inFlight.set(partNumber, loaded);
+              reportProgress();
+            },
+          }),
+        options.signal
+      );
+
+      inFlight.delete(partNumber);
+      done.add(partNumber);
+      activeSession.parts.push({ etag: part.etag, partNumber: part.partNumber });
+      saveSession(id, activeSession);
+      reportProgress();
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: PART_CONCURRENCY }, worker));
+
+    const blob = await completeMultipartUpload(
+      activeSession.pathname,
+      [...activeSession.parts].sort((a, b) => a.partNumber - b.partNumber),
+      {
+        access: "public",
+        token: activeSession.token,
+        key: activeSession.key,
+        uploadId: activeSession.uploadId,
+        contentType,
+        abortSignal: options.signal,
+      }
+    );
+
+    saveSession(id, null);
+    return blob.url;
+  } catch (error) {
+    // The upload expired or was rejected - resuming would fail the same way, so the next attempt starts over
+    if (!(error instanceof BlobRequestAbortedError) && !isRetryable(error)) {
+      saveSession(id, null);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,101 @@
+import { MODERATION_CATEGORIES, type ModerationCategory } from "@/ai/ocr/categories";
+
+const STORAGE_KEY = "reviewer_settings";
+
+/**
+ * Category labels that can be set to always blur (as stored on incidents)
+ */
+export const BLURRABLE_CATEGORIES: string[] = MODERATION_CATEGORIES
+  .filter((category: ModerationCategory) => category.blurrable)
+  .map((category) => category.tag);
+
+/**
+ * Categories that always start blurred when ALWAYS_BLUR_CATEGORIES is not set
+ */
+export const DEFAULT_ALWAYS_BLUR_CATEGORIES = ["nudity", "gore", "sexual_assault"];
+
+/**
+ * A reviewer's own preferences - the always-blur list is set by the admin and can't be changed here
+ */
+export interface ReviewerSettings {
+  blurByDefault: boolean; // Start every flagged screenshot blurred
+}
+
+export const DEFAULT_REVIEWER_SETTINGS: ReviewerSettings = {
+  blurByDefault: true,
+};
+
+/**
+ * Read the admin's always-blur list from ALWAYS_BLUR_CATEGORIES (server only)
+ * A comma-separated list of incident tags, e.g. "nudity,gore"; unknown tags are ignored
+ */
+export function alwaysBlurCategoriesFromEnv(): string[] {
+  const configured = process.env.ALWAYS_BLUR_CATEGORIES;
+  if (configured === undefined) return DEFAULT_ALWAYS_BLUR_CATEGORIES;
+
+  return configured
+    .split(",")
+    .map((category) => category.trim())
+    .filter((category) => {
+      if (!category) return false;
+      if (BLURRABLE_CATEGORIES.includes(category)) return true;
+      console.warn(`Ignoring unknown category "${category}" in ALWAYS_BLUR_CATEGORIES`);
+      return false;
+    });
+}
+
+let alwaysBlurRequest: Promise<string[] | null> | null = null;
+
+/**
+ * Fetch the admin's always-blur list once per page load
+ * @returns The categories, or null when the server couldn't be asked
+ */
+export function loadAlwaysBlurCategories(): Promise<string[] | null> {
+  alwaysBlurRequest ??= fetch("/api/reviewer-settings")
+    .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+    .then((body: { alwaysBlurCategories: string[] }) => body.alwaysBlurCategories)
+    .catch((error) => {
+      console.error("Error loading the always-blur categories:", error);
+      alwaysBlurRequest = null; // Ask again next time
+      return null;
+    });
+  return alwaysBlurRequest;
+}
+
+/**
+ * Get the reviewer settings from localStorage
+ */
+export function getReviewerSettings(): ReviewerSettings {
+  if (typeof window === "undefined") return DEFAULT_REVIEWER_SETTINGS; // SSR safety
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { blurByDefault: JSON.parse(stored).blurByDefault !== false } : DEFAULT_REVIEWER_SETTINGS;
+  } catch (error) {
+    console.error("Error parsing reviewer settings from localStorage:", error);
+    return DEFAULT_REVIEWER_SETTINGS;
+  }
+}
+
+/**
+ * Save the reviewer settings to localStorage
+ */
+export function saveReviewerSettings(settings: ReviewerSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Whether a screenshot with these categories should be blurred until revealed
+ * @param categories - Comma-separated category labels, e.g. "gore, murder"
+ * @param alwaysBlurCategories - The admin's list; null (not loaded yet) blurs everything
+ */
+export function shouldStartBlurred(
+  categories: string | undefined,
+  alwaysBlurCategories: string[] | null,
+  settings: ReviewerSettings = getReviewerSettings()
+): boolean {
+  if (settings.blurByDefault || alwaysBlurCategories === null) return true;
+
+  const labels = categories ? categories.split(", ") : [];
+  return labels.some((label) => alwaysBlurCategories.includes(label));
+}
@@ -1,5 +1,12 @@
-import type { FlaggedVideo, FlaggedFrame, CategoryReason } from "@/components/video-moderation-grid";
-import type { ContentAnalysis } from "@/ai/ocr/types";
+import type { FlaggedVideo, FlaggedFrame, FlaggedSegment, CategoryReason } from "@/components/video-moderation-grid";
+import type { ContentAnalysis, LexiconMatch } from "@/ai/ocr/types";
+import { analysisDetections, getCategory } from "@/ai/ocr/categories";
+import type { MediaMetadata } from "@/workflows/steps/metadata";
+import type { IncidentSegment } from "@/workflows/steps/segments";
+import type { Storyboard } from "@/workflows/steps/storyboard";
+import { DEFAULT_RATING_POLICY, policyRef, type RatingPolicy } from "@/lib/rating-policy";
+import type { UsageSummary } from "@/ai/providers/usage";
+import { PROMPT_IDS, promptRef, type PromptAssignment, type VerdictProvenance } from "@/ai/prompts/registry";
 
 const STORAGE_KEY = "flagged_videos";
 
@@ -17,6 +24,13 @@ export function generateFrameId(): string {
   return `frame_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generate a unique segment ID
+ */
+export function generateSegmentId(): string {
+  return `seg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Format seconds to MM:SS or HH:MM:SS
  */
@@ -41,18 +55,54 @@ export function formatTimestamp(seconds: number): string {
 }
 
 /**
- * Calculate severity based on incidents
+ * Format bits per second as kbps or Mbps
+ */
+export function formatBitrate(bitsPerSecond: number): string {
+  if (bitsPerSecond >= 1_000_000) {
+    return `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`;
+  }
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+/**
+ * Format a dollar amount, keeping sub-cent costs readable
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a token count as e.g. 950, 12.3k or 1.2M
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Calculate severity based on incidents (or segments - one per continuous stretch of content)
+ * A level applies when any one of its counts is reached
  */
 export function calculateSeverity(
-  incidents: Array<{ confidence: number; rating?: string; categories?: string }>
+  incidents: Array<{ confidence: number; rating?: string; categories?: string }>,
+  rules: RatingPolicy["severity"] = DEFAULT_RATING_POLICY.severity
 ): "high" | "medium" | "low" {
   if (incidents.length === 0) return "low";
 
-  const highConfidenceCount = incidents.filter((i) => i.confidence > 0.9).length;
-  const eighteenPlusCount = incidents.filter((i) => i.rating === "18+").length;
+  const counts = {
+    incidents: incidents.length,
+    eighteenPlus: incidents.filter((i) => i.rating === "18+").length,
+    highConfidence: incidents.filter((i) => i.confidence > rules.highConfidence).length,
+  };
+  const reaches = (level: RatingPolicy["severity"]["high"]) =>
+    (Object.keys(counts) as (keyof typeof counts)[]).some(
+      (key) => counts[key] >= (level[key] ?? Number.POSITIVE_INFINITY)
+    );
 
-  if (eighteenPlusCount >= 2 || highConfidenceCount >= 5) return "high";
-  if (incidents.length >= 3 || highConfidenceCount >= 2) return "medium";
+  if (reaches(rules.high)) return "high";
+  if (reaches(rules.medium)) return "medium";
   return "low";
 }
 
@@ -158,53 +208,38 @@ export function clearAllVideos(): void {
 
 /**
  * Extract category reasons from ContentAnalysis
+ * @param labelSuffix - Appended to each category name, e.g. " (on-screen text)"
  */
-function extractCategoryReasons(analysis?: ContentAnalysis): CategoryReason[] {
+function extractCategoryReasons(analysis?: ContentAnalysis, labelSuffix = ""): CategoryReason[] {
   if (!analysis) return [];
 
-  const reasons: CategoryReason[] = [];
-
-  // Map of category keys to display names
-  const categoryNames: Record<string, string> = {
-    cursing: "Cursing",
-    moderate_violence: "Moderate Violence",
-    strong_language: "Strong Language",
-    mild_sexual_content: "Mild Sexual Content",
-    nudity: "Nudity",
-    drug_use: "Drug Use",
-    rape: "Sexual Assault",
-    murder: "Murder",
-    stabbing: "Stabbing",
-    gore: "Gore",
-    extreme_profanity: "Extreme Profanity",
-    disturbing_themes: "Disturbing Themes",
-  };
+  // Display names come from the category registry; unknown keys (older results) show as-is
+  return analysisDetections(analysis)
+    .filter(([, value]) => value.detected)
+    .map(([key, value]) => ({
+      category: (getCategory(key)?.label || key) + labelSuffix,
+      detected: value.detected,
+      confidence: value.confidence,
+      reason: value.reason,
+    }));
+}
 
-  // Extract 16+ categories
-  Object.entries(analysis.sixteenPlus).forEach(([key, value]) => {
-    if (value.detected) {
-      reasons.push({
-        category: categoryNames[key] || key,
-        detected: value.detected,
-        confidence: value.confidence,
-        reason: value.reason,
-      });
-    }
-  });
-
-  // Extract 18+ categories
-  Object.entries(analysis.eighteenPlus).forEach(([key, value]) => {
-    if (value.detected) {
-      reasons.push({
-        category: categoryNames[key] || key,
-        detected: value.detected,
-        confidence: value.confidence,
-        reason: value.reason,
-      });
-    }
-  });
-
-  return reasons;
+/**
+ * Describe lexicon matches as a category reason, so matched words show with the other reasons
+ */
+function lexiconMatchReason(matches?: LexiconMatch[]): CategoryReason[] {
+  if (!matches || matches.length === 0) return [];
+
+  const words = matches.map((match) =>
+    match.matched.toLowerCase() === match.term ? `"${match.matched}"` : `"${match.matched}" (${match.term})`
+  );
+
+  return [{
+    category: "Lexicon Match (on-screen text)",
+    detected: true,
+    confidence: 5,
+    reason: `Matched words: ${words.join(", ")}`,
+  }];
 }
 
 /**
@@ -217,15 +252,38 @@ export function workflowResultToFlaggedVideo(
       confidence: number;
       categories: string;
       screenshotUrl: string;
+      blurredScreenshotUrl?: string;
       rating?: string;
       analysis?: ContentAnalysis;
+      source?: "frame" | "audio";
+      startTimestamp?: number;
+      endTimestamp?: number;
+      transcript?: string;
+      onScreenText?: string;
+      lexiconMatches?: LexiconMatch[];
+      textAnalysis?: ContentAnalysis;
+      clipUrl?: string;
+      clipOffset?: number;
+      provider?: string;
+      needsReview?: boolean;
+      providerVerdicts?: Array<{ provider: string; model?: string; rating: "safe" | "16+" | "18+"; analysis: ContentAnalysis }>;
+      provenance?: VerdictProvenance;
     }>;
+    segments?: IncidentSegment[];
+    redactedVideoUrl?: string | null;
+    unanalyzedFrames?: Array<{ timestamp: number; error: string; attempts: number }>;
     totalFrames: number;
     processedAt: string;
+    usage?: UsageSummary; // Per-call records are left in the workflow result
   },
   metadata: {
     filename: string;
     durationSeconds?: number;
+    media?: MediaMetadata;
+    storyboard?: Storyboard | null;
+    policy?: RatingPolicy; // Missing on results from before rating policies
+    prompts?: PromptAssignment; // Missing on results from before the prompt registry
+    models?: string[];
   }
 ): FlaggedVideo {
   const videoId = generateVideoId();
@@ -236,16 +294,69 @@ export function workflowResultToFlaggedVideo(
     timestamp: formatTimestamp(incident.timestamp),
     confidence: incident.confidence,
     screenshot: incident.screenshotUrl,
-    reason: incident.rating === "18+"
-      ? "Explicit content detected"
-      : "Inappropriate content detected",
+    blurredScreenshot: incident.blurredScreenshotUrl,
+    reason: incident.needsReview && incident.rating === "safe"
+      ? "Providers disagree on this frame"
+      : incident.source === "audio"
+      ? incident.rating === "18+"
+        ? "Explicit language detected"
+        : "Inappropriate language detected"
+      : incident.rating === "18+"
+        ? "Explicit content detected"
+        : "Inappropriate content detected",
     categories: incident.categories,
     rating: incident.rating as "safe" | "16+" | "18+" | undefined,
-    categoryReasons: extractCategoryReasons(incident.analysis),
+    categoryReasons: [
+      ...extractCategoryReasons(incident.analysis),
+      ...lexiconMatchReason(incident.lexiconMatches),
+      ...extractCategoryReasons(incident.textAnalysis, " (on-screen text)"),
+    ],
+    source: incident.source ?? "frame",
+    startTimestamp: incident.startTimestamp !== undefined
+      ? formatTimestamp(incident.startTimestamp)
+      : undefined,
+    endTimestamp: incident.endTimestamp !== undefined
+      ? formatTimestamp(incident.endTimestamp)
+      : undefined,
+    transcript: incident.transcript,
+    onScreenText: incident.onScreenText,
+    clipUrl: incident.clipUrl,
+    clipOffset: incident.clipOffset,
+    provider: incident.provider,
+    needsReview: incident.needsReview,
+    providerVerdicts: incident.providerVerdicts?.map((verdict) => ({
+      provider: verdict.provider,
+      model: verdict.model,
+      rating: verdict.rating,
+      categoryReasons: extractCategoryReasons(verdict.analysis),
+    })),
+    provenance: incident.provenance,
+  }));
+
+  // Segments reference their member frames by position in the incidents array
+  const segments: FlaggedSegment[] | undefined = result.segments?.map((segment) => ({
+    id: generateSegmentId(),
+    source: segment.source,
+    startTimestamp: formatTimestamp(segment.startTimestamp),
+    endTimestamp: formatTimestamp(segment.endTimestamp),
+    startSeconds: segment.startTimestamp,
+    endSeconds: segment.endTimestamp,
+    rating: segment.rating,
+    confidence: segment.confidence,
+    categories: segment.categories,
+    screenshot: segment.screenshotUrl,
+    blurredScreenshot: segment.blurredScreenshotUrl,
+    transcript: segment.transcript,
+    clipUrl: segment.clipUrl,
+    frameIds: segment.memberIndices.map((index) => flaggedFrames[index].id),
   }));
 
-  const severity = calculateSeverity(result.incidents);
-  const overallRating = calculateVideoRating(result.incidents);
+  // A long scene sampled many times is one flag, not one per sample
+  const severity = calculateSeverity(result.segments ?? result.incidents, metadata.policy?.severity);
+  // Without a verdict for every frame, "safe" would be a guess
+  const unanalyzedFrames = result.unanalyzedFrames ?? [];
+  const rating = calculateVideoRating(result.incidents);
+  const overallRating = rating === "safe" && unanalyzedFrames.length > 0 ? undefined : rating;
 
   // Generate title from filename
   const title = `User Upload - ${metadata.filename.replace(/\.[^/.]+$/, "")}`;
@@ -254,20 +365,43 @@ export function workflowResultToFlaggedVideo(
   const uploadDate = new Date(result.processedAt).toISOString().split("T")[0];
 
   // Format duration
-  const duration = metadata.durationSeconds
-    ? formatDuration(metadata.durationSeconds)
+  const durationSeconds = metadata.durationSeconds ?? metadata.media?.durationSeconds;
+  const duration = durationSeconds
+    ? formatDuration(durationSeconds)
     : "Unknown";
 
+  // Use first flagged frame with a screenshot as thumbnail
+  const thumbnailFrame = flaggedFrames.find((frame) => frame.screenshot);
+
+  // Every prompt version the run was set up with, not only those that flagged something
+  const prompts = metadata.prompts;
+
   return {
     id: videoId,
     title,
-    thumbnail: flaggedFrames[0]?.screenshot || "", // Use first flagged frame as thumbnail
+    thumbnail: thumbnailFrame?.screenshot || "",
+    thumbnailBlurred: thumbnailFrame?.blurredScreenshot,
+    thumbnailCategories: thumbnailFrame?.categories,
     uploadDate,
     duration,
     severity,
-    flagCount: result.incidents.length,
+    flagCount: segments?.length ?? result.incidents.length,
     flaggedFrames,
+    segments,
     status: "flagged",
     overallRating,
+    media: metadata.media,
+    storyboard: metadata.storyboard ?? undefined,
+    redactedVideoUrl: result.redactedVideoUrl ?? undefined,
+    policyId: metadata.policy ? policyRef(metadata.policy) : undefined,
+    prompts: prompts ? PROMPT_IDS.map((id) => promptRef({ id, version: prompts.versions[id] })) : undefined,
+    promptSplit: prompts?.split.length ? prompts.split : undefined,
+    models: metadata.models,
+    usage: result.usage
+      ? { total: result.usage.total, byProvider: result.usage.byProvider, byKind: result.usage.byKind }
+      : undefined,
+    unanalyzedFrames: unanalyzedFrames.length > 0
+      ? unanalyzedFrames.map((frame) => ({ ...frame, timestamp: formatTimestamp(frame.timestamp) }))
+      : undefined,
   };
 }
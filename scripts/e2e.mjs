@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+// End-to-end check of processVideoUpload without network access
+//
+// Starts `next dev` with the offline providers and the fs blob backend, places the
+// fixture video where an upload would land, starts a run through /api/upload-video
+// and compares the streamed result with fixtures/e2e/expected-result.json.
+// Needs ffmpeg and ffprobe on the PATH. Exits non-zero on any mismatch.
+
+import { spawn } from "child_process";
+import { copyFile, mkdir, mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+const root = path.resolve(import.meta.dirname, "..");
+const fixture = JSON.parse(await readFile(path.join(root, "fixtures/e2e/expected-result.json"), "utf8"));
+const { upload, env, expected } = fixture;
+
+const port = Number(process.env.E2E_PORT) || 3100;
+const baseUrl = `http://localhost:${port}`;
+const blobDir = await mkdtemp(path.join(os.tmpdir(), "e2e-blobs-"));
+const filename = path.basename(upload.file);
+
+const RATING_ORDER = ["safe", "16+", "18+"];
+
+// Own process group, so the dev server and its workers can be stopped together by pid
+const server = spawn(path.join(root, "node_modules/.bin/next"), ["dev", "--port", String(port)], {
+  cwd: root,
+  detached: true,
+  stdio: ["ignore", "pipe", "pipe"],
+  env: {
+    ...process.env,
+    ...Object.fromEntries(
+      Object.entries(env).map(([key, value]) => [key, key.endsWith("_PATH") ? path.join(root, value) : value])
+    ),
+    BLOB_BACKEND: "fs",
+    BLOB_FS_DIR: blobDir,
+    BLOB_FS_BASE_URL: `${baseUrl}/api/blob`,
+    VERDICT_CACHE: "off", // Every run must really call the (fixture) model
+  },
+});
+
+const serverLog = [];
+server.stdout.on("data", (chunk) => serverLog.push(chunk.toString()));
+server.stderr.on("data", (chunk) => serverLog.push(chunk.toString()));
+
+function stopServer() {
+  try {
+    process.kill(-server.pid, "SIGTERM");
+  } catch {
+    // Already gone
+  }
+}
+
+async function waitForServer(timeoutMs) {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) throw new Error(`next dev exited with code ${server.exitCode}`);
+
+    try {
+      const response = await fetch(`${baseUrl}/api/blob/ready`);
+      if (response.status < 500) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  throw new Error(`next dev did not start within ${timeoutMs / 1000}s`);
+}
+
+/**
+ * Start the run and read the progress stream until it completes or fails
+ */
+async function runUpload() {
+  // Where the browser's resumable upload would have put the video
+  await mkdir(path.join(blobDir, "uploads"), { recursive: true });
+  await copyFile(path.join(root, upload.file), path.join(blobDir, "uploads", filename));
+
+  const response = await fetch(`${baseUrl}/api/upload-video`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ blobUrl: `${baseUrl}/api/blob/uploads/${filename}`, filename, options: upload.options }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Start route returned ${response.status}: ${await response.text()}`);
+  }
+
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for await (const chunk of response.body) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const update = JSON.parse(line);
+
+      if (update.type === "complete") return update.result;
+      if (update.type === "error") throw new Error(`Run failed: ${update.message}`);
+      if (update.message) console.log(`  ${update.message}`);
+    }
+  }
+
+  throw new Error("Progress stream ended without a result");
+}
+
+/**
+ * Compare a run's result with the expectations
+ * @returns One line per mismatch
+ */
+function compare(result) {
+  const mismatches = [];
+  const check = (label, actual, wanted) => {
+    if (JSON.stringify(actual) !== JSON.stringify(wanted)) {
+      mismatches.push(`${label}: expected ${JSON.stringify(wanted)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+  const near = (label, actual, wanted) => {
+    if (typeof actual !== "number" || Math.abs(actual - wanted) > expected.toleranceSeconds) {
+      mismatches.push(`${label}: expected ${wanted} ±${expected.toleranceSeconds}s, got ${actual}`);
+    }
+  };
+
+  check("analyzedFrames", result.analyzedFrames, expected.analyzedFrames);
+  check("unanalyzedFrames", result.unanalyzedFrames.length, expected.unanalyzedFrames);
+
+  const overallRating = result.incidents.reduce(
+    (highest, incident) =>
+      RATING_ORDER.indexOf(incident.rating) > RATING_ORDER.indexOf(highest) ? incident.rating : highest,
+    "safe"
+  );
+  check("overallRating", overallRating, expected.overallRating);
+
+  check("segments", result.segments.length, expected.segments.length);
+  expected.segments.forEach((wanted, i) => {
+    const segment = result.segments[i];
+    if (!segment) return;
+
+    check(`segments[${i}].source`, segment.source, wanted.source);
+    check(`segments[${i}].rating`, segment.rating, wanted.rating);
+    near(`segments[${i}].startTimestamp`, segment.startTimestamp, wanted.startTimestamp);
+    near(`segments[${i}].endTimestamp`, segment.endTimestamp, wanted.endTimestamp);
+    check(`segments[${i}].categories`, segment.categories.split(", ").sort(), [...wanted.categories].sort());
+  });
+
+  result.incidents
+    .filter((incident) => incident.source === "frame")
+    .forEach((incident, i) => check(`incidents[${i}].provider`, incident.provider, expected.incidentProvider));
+
+  return mismatches;
+}
+
+let exitCode = 1;
+
+try {
+  console.log(`Starting next dev on port ${port}...`);
+  await waitForServer(Number(process.env.E2E_STARTUP_TIMEOUT_SECONDS || 300) * 1000);
+
+  console.log(`Processing ${upload.file}...`);
+  const result = await runUpload();
+  const mismatches = compare(result);
+
+  if (mismatches.length === 0) {
+    console.log("e2e: result matches fixtures/e2e/expected-result.json");
+    exitCode = 0;
+  } else {
+    console.error("e2e: result does not match fixtures/e2e/expected-result.json");
+    mismatches.forEach((mismatch) => console.error(`  - ${mismatch}`));
+  }
+} catch (error) {
+  console.error(`e2e: ${error instanceof Error ? error.message : error}`);
+  console.error(serverLog.join("").split("\n").slice(-40).join("\n"));
+} finally {
+  stopServer();
+  await rm(blobDir, { recursive: true, force: true });
+}
+
+process.exit(exitCode);
@@ -0,0 +1,24 @@
+import { FatalError } from "workflow";
+
+/**
+ * Thrown when ffprobe/ffmpeg cannot decode an upload at all
+ * Extends FatalError so the workflow runtime doesn't retry a file that will never decode
+ */
+export class UndecodableVideoError extends FatalError {
+  readonly code = "undecodable_video";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "UndecodableVideoError";
+  }
+}
+
+/**
+ * Errors cross the step boundary serialized, so match on name as well as class
+ */
+export function isUndecodableVideoError(error: unknown): boolean {
+  return (
+    error instanceof UndecodableVideoError ||
+    (error instanceof Error && error.name === "UndecodableVideoError")
+  );
+}
@@ -1,106 +1,518 @@
-import { put, del } from "@vercel/blob";
-import { getWritable } from "workflow";
+import { put, del } from "../lib/blob-store";
+import { getWritable, sleep } from "workflow";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, readFile, stat } from "fs/promises";
+import { unlink, readFile } from "fs/promises";
 import path from "path";
 import os from "os";
 import pLimit from "p-limit";
+import {
+  DEFAULT_SAMPLING_OPTIONS,
+  buildExtractFramesCommand,
+  parseFrameTimestamps,
+  frameTimestampAt,
+  type SamplingOptions,
+  type FrameLimits,
+} from "./steps/frame-sampling";
+import { frameHashAt } from "./steps/frame-dedup";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  type ProcessingOptions,
+} from "../lib/processing-options";
+import type { AIProvider } from "../ai/providers/provider-factory";
+import type { ModerationSubject } from "../ai/providers/fixture-provider";
+import type { ConsensusOptions, ConsensusResult, ProviderVerdict } from "../ai/ocr/consensus";
+import type { ContentAnalysis, ContentRating } from "../ai/ocr/types";
+import type { ProviderHealth } from "../ai/providers/circuit-breaker";
+import { DEFAULT_RATING_POLICY, isFlaggedRating, policyRef, type RatingPolicy } from "../lib/rating-policy";
+import type { CachedVerdict } from "../ai/cache/types";
+import { summarizeUsage, type CallUsage, type UsageRecord } from "../ai/providers/usage";
+import {
+  DEFAULT_PROMPT_ASSIGNMENT,
+  getPrompt,
+  mergeProvenance,
+  renderedPromptRef,
+  type PromptAssignment,
+  type PromptSelection,
+  type VerdictProvenance,
+} from "../ai/prompts/registry";
+import { clusterFrames } from "./steps/frame-dedup";
+import { probeVideoStep, type MediaMetadata } from "./steps/metadata";
+import { normalizationReason, normalizeVideoStep } from "./steps/normalization";
+import { isUndecodableVideoError } from "./errors";
+import { transcribeAudioStep, moderateTranscriptStep } from "./steps/audio";
+import { buildRefinementWindows, flaggedRunBounds } from "./steps/refinement";
+import { buildIncidentSegments } from "./steps/segments";
+import { cutEvidenceClipsStep, evidenceClipRange } from "./steps/evidence-clips";
+import { isEmptyRedactionPlan, planRedaction, renderRedactedVideoStep } from "./steps/redaction";
+import { extractRefinementFrames } from "./steps/video-processing";
+import { planStoryboard, type StoryboardPlan } from "./steps/storyboard";
 
 const execAsync = promisify(exec);
 
-export async function processVideoUpload(videoBuffer: Buffer, filename: string) {
+export async function processVideoUpload(
+  videoUrl: string,
+  filename: string,
+  options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS,
+  policy: RatingPolicy = DEFAULT_RATING_POLICY, // Resolved from options.policy by the upload route
+  prompts: PromptAssignment = DEFAULT_PROMPT_ASSIGNMENT // Drawn from options.prompts by the upload route
+) {
   "use workflow";
 
-  console.log(`Starting video processing workflow for: ${filename}`);
+  // The client uploads the video straight to blob storage, so only its URL
+  // is serialized into the run - retried steps never re-send the payload
+  console.log(`Starting video processing workflow for: ${filename} (${videoUrl})`);
 
   // Get writable stream - pass to steps for writing
   const writable = getWritable();
 
-  let videoUrl: string | null = null;
+  // Canonical proxy, when the original needed normalizing - deleted along with the original
+  let proxyUrl: string | null = null;
 
   try {
     await writeProgress(writable, {
       type: "progress",
       step: "started",
       message: "Starting video processing",
-      percent: 5,
+      percent: 20,
     });
 
-    // Step 1: Upload video to Vercel Blob
-    videoUrl = await uploadVideoToBlob(videoBuffer, filename);
-    console.log(`Video uploaded to blob: ${videoUrl}`);
+    // Step 1: Probe duration, resolution, codecs etc. with ffprobe
+    const media = await probeVideoStep(videoUrl, filename);
     await writeProgress(writable, {
       type: "progress",
-      step: "uploaded",
-      message: "Video uploaded to storage",
-      percent: 20,
+      step: "probed",
+      message: describeMedia(media),
+      media,
+      percent: 25,
     });
 
-    // Step 2: Extract frames using ffmpeg
-    const frames = await extractFrames(videoUrl, filename);
+    // Step 2: Transcode unsupported containers/codecs into a canonical proxy
+    const normalizeReason = normalizationReason(media, options.normalize);
+
+    if (normalizeReason) {
+      await writeProgress(writable, {
+        type: "progress",
+        step: "normalizing",
+        message: `Normalizing video: ${normalizeReason}`,
+        percent: 27,
+      });
+
+      proxyUrl = await normalizeVideoStep(videoUrl, filename);
+      console.log(`Normalized ${filename} (${normalizeReason}): ${proxyUrl}`);
+    }
+
+    // Every later stage reads the proxy if there is one
+    const sourceUrl = proxyUrl ?? videoUrl;
+
+    // Step 3: Extract frames using ffmpeg
+    // ...plus a storyboard sprite of the whole video, so the timeline stays scrubbable after deletion
+    const storyboardPlan = planStoryboard(media.durationSeconds);
+    const { frames, storyboard } = await extractFrames(
+      sourceUrl,
+      filename,
+      options.sampling,
+      {
+        maxFrames: options.maxFrames,
+        startSeconds: options.timeRange?.startSeconds,
+        endSeconds: options.timeRange?.endSeconds,
+      },
+      storyboardPlan && media.durationSeconds
+        ? { plan: storyboardPlan, durationSeconds: media.durationSeconds }
+        : null
+    );
     console.log(`Extracted ${frames.length} frames from video`);
+
+    // Cluster near-identical frames (static shots, slides) so each is analyzed once
+    const representativeOf = options.dedupe.enabled
+      ? clusterFrames(frames.map((frame) => frame.hash), options.dedupe.maxDistance)
+      : frames.map((_, index) => index);
+    const representativeIndices = frames
+      .map((_, index) => index)
+      .filter((index) => representativeOf[index] === index);
+    const skippedAnalyses = frames.length - representativeIndices.length;
+
+    console.log(`${representativeIndices.length} distinct frames, skipping ${skippedAnalyses} duplicates`);
     await writeProgress(writable, {
       type: "progress",
       step: "extracted",
-      message: `Extracted ${frames.length} frames`,
-      totalFrames: frames.length,
+      message: `Extracted ${frames.length} frames (${representativeIndices.length} distinct)`,
+      totalFrames: representativeIndices.length,
+      skippedAnalyses,
       percent: 40,
     });
 
-    // Step 3: Process frames with continuous parallel moderation (max 10 concurrent)
-    const totalFrames = frames.length;
-    const MAX_CONCURRENT = 10;
+    // Step 4: Process distinct frames with continuous parallel moderation (options.concurrency at a time)
+    const totalFrames = representativeIndices.length;
     let processedCount = 0;
 
-    // Use p-limit to maintain exactly 10 concurrent requests at all times
-    const limit = pLimit(MAX_CONCURRENT);
+    // p-limit caps the frames this run has in flight; each provider's scheduler lane
+    // (ai/providers/call-scheduler.ts) may hold calls back further on this instance
+    const limit = pLimit(options.concurrency);
+
+    const frameOptions = {
+      provider: options.provider,
+      extractText: options.extractText,
+      videoFilename: filename,
+      consensus: options.consensus.enabled ? options.consensus : undefined,
+      policy,
+      prompts: prompts.versions,
+      cache: options.cache,
+    };
+
+    // Batched mode sends consecutive distinct frames together, grouped by the largest window;
+    // the step splits a group further for providers configured with smaller windows
+    const batched = options.batch.enabled && !options.consensus.enabled;
+    const windowSize = batched ? Math.max(1, ...Object.values(options.batch.windowSizes)) : 1;
+    const toWindows = (frameIndices: number[]) =>
+      Array.from({ length: Math.ceil(frameIndices.length / windowSize) }, (_, i) =>
+        frameIndices.slice(i * windowSize, (i + 1) * windowSize)
+      );
+
+    const analyzeWindow = async (frameIndices: number[]) =>
+      batched
+        ? processFrameWindow(
+            frameIndices.map((frameIndex) => frames[frameIndex]),
+            { ...frameOptions, windowSizes: options.batch.windowSizes }
+          )
+        : [await processOneFrame(frames[frameIndices[0]], frameOptions)];
+    const outcomes = new Map<number, Awaited<ReturnType<typeof processOneFrame>>>();
+    const attempts = new Map<number, number>(representativeIndices.map((frameIndex) => [frameIndex, 1]));
+
+    // Every model call of this run, priced - including retries, dense refinement and the transcript
+    const usageRecords: UsageRecord[] = [];
+
+    // Frame verdicts answered from the verdict cache instead of a model call
+    const cacheStats = { hits: 0, misses: 0, savedUsd: 0 };
+    const countCache = (outcome: { cache: "hit" | "miss" | null; savedUsd: number }) => {
+      if (outcome.cache === "hit") cacheStats.hits++;
+      if (outcome.cache === "miss") cacheStats.misses++;
+      cacheStats.savedUsd += outcome.savedUsd;
+    };
 
-    const allResults = await Promise.all(
-      frames.map((frame, index) =>
+    await Promise.all(
+      toWindows(representativeIndices).map((frameIndices) =>
         limit(async () => {
-          const incident = await processOneFrame(frame);
-          processedCount++;
+          const windowOutcomes = await analyzeWindow(frameIndices);
+          frameIndices.forEach((frameIndex, i) => outcomes.set(frameIndex, windowOutcomes[i]));
+          windowOutcomes.forEach((outcome) => {
+            usageRecords.push(...outcome.usage);
+            countCache(outcome);
+          });
+          processedCount += frameIndices.length;
 
-          // Write progress update immediately after each frame completes
-          const percent = 40 + Math.floor((processedCount / totalFrames) * 50);
+          // Write progress update immediately after each frame (or window) completes
+          const percent = 40 + Math.floor((processedCount / totalFrames) * 45);
+          const last = windowOutcomes[windowOutcomes.length - 1];
           await writeProgress(writable, {
             type: "frameProcessed",
             message: `Processing frame ${processedCount} of ${totalFrames}`,
             current: processedCount,
             total: totalFrames,
+            frames: frameIndices.length,
             percent,
+            unanalyzed: windowOutcomes.some((outcome) => outcome.unanalyzed !== null),
+            provider: last.provider, // null when every provider in the chain failed
+            providerHealth: last.providerHealth,
+            costUsd: summarizeUsage(usageRecords).total.costUsd, // Spent so far
+            cache: { ...cacheStats }, // Cache hits and misses so far
           });
-
-          return incident;
         })
       )
     );
 
-    // Filter out null results to get only incidents
-    const incidents = allResults.filter((incident) => incident !== null);
+    // Re-queue frames that got no verdict, doubling the (durable) wait after every round
+    for (let round = 1; round <= options.retry.maxRetries; round++) {
+      const pending = representativeIndices.filter((frameIndex) => outcomes.get(frameIndex)?.unanalyzed);
+      if (pending.length === 0) break;
+
+      const delaySeconds = options.retry.backoffSeconds * 2 ** (round - 1);
+      await writeProgress(writable, {
+        type: "progress",
+        step: "retrying",
+        message: `Retrying ${pending.length} unanalyzed frames in ${delaySeconds}s (attempt ${round + 1} of ${options.retry.maxRetries + 1})`,
+        unanalyzedFrames: pending.length,
+        attempt: round + 1,
+        percent: 85,
+      });
+      await sleep(`${delaySeconds}s`);
+
+      await Promise.all(
+        toWindows(pending).map((frameIndices) =>
+          limit(async () => {
+            const windowOutcomes = await analyzeWindow(frameIndices);
+            frameIndices.forEach((frameIndex, i) => {
+              outcomes.set(frameIndex, windowOutcomes[i]);
+              attempts.set(frameIndex, round + 1);
+            });
+            windowOutcomes.forEach((outcome) => {
+              usageRecords.push(...outcome.usage);
+              countCache(outcome);
+            });
+          })
+        )
+      );
+    }
+
+    // Propagate each representative's verdict to its duplicates, keeping their own timestamps
+    const verdicts = new Map(
+      representativeIndices.map((frameIndex) => [frameIndex, outcomes.get(frameIndex)?.incident ?? null])
+    );
+    const sampledIncidents = frames.flatMap((frame, index) => {
+      const incident = verdicts.get(representativeOf[index]);
+      if (!incident) return [];
+      if (representativeOf[index] === index) return [incident];
+
+      return [{ ...incident, timestamp: frame.timestamp, duplicateOf: incident.timestamp }];
+    });
+
+    // Frames still without a verdict are reported, never counted as clean or flagged
+    const unanalyzedFrames = frames.flatMap((frame, index) => {
+      const unanalyzed = outcomes.get(representativeOf[index])?.unanalyzed;
+      if (!unanalyzed) return [];
+
+      return [{
+        timestamp: frame.timestamp,
+        error: unanalyzed.error,
+        attempts: attempts.get(representativeOf[index]) ?? 1,
+      }];
+    });
+
+    if (unanalyzedFrames.length > 0) {
+      console.warn(`${unanalyzedFrames.length} frames could not be analyzed after retries`);
+    }
+
+    // Step 5: Re-sample densely around flagged frames to find where the content starts and ends
+    const sampleVerdicts = frames.flatMap((frame, index) =>
+      outcomes.get(representativeOf[index])?.unanalyzed
+        ? []
+        : [{ timestamp: frame.timestamp, flagged: verdicts.get(representativeOf[index]) != null }]
+    );
+    const refinementWindows = options.refinement.enabled
+      ? buildRefinementWindows(sampleVerdicts, options.refinement, {
+          startSeconds: options.timeRange?.startSeconds ?? 0,
+          endSeconds: options.timeRange?.endSeconds ?? media.durationSeconds,
+        })
+      : [];
+    let frameIncidents = sampledIncidents;
+    let timeline: { timestamp: number; flagged: boolean }[] = sampleVerdicts;
+
+    if (refinementWindows.length > 0) {
+      await writeProgress(writable, {
+        type: "progress",
+        step: "refining",
+        message: `Refining ${refinementWindows.length} flagged moments`,
+        windows: refinementWindows.length,
+        percent: 86,
+      });
+
+      const denseFrames = await extractRefinementFrames(
+        sourceUrl,
+        filename,
+        refinementWindows,
+        options.refinement.fps
+      );
+
+      // Image verdict only - content flagged purely by on-screen text keeps its sample point
+      // Dense frames that get no verdict are simply left off the timeline
+      // A single provider is enough here, even in consensus mode - only the boundaries are needed
+      const denseVerdicts = await Promise.all(
+        denseFrames.map((frame) =>
+          limit(async () => {
+            const result = await moderateFrame(
+              frame,
+              options.provider,
+              { filename, timestamp: frame.timestamp },
+              undefined,
+              policy,
+              prompts.versions,
+              options.cache
+            );
+            usageRecords.push(...result.usage);
+            countCache({ cache: result.cache ?? null, savedUsd: result.savedUsd ?? 0 });
+            return result.unanalyzed ? [] : [{ timestamp: frame.timestamp, flagged: result.isFlagged }];
+          })
+        )
+      );
+      timeline = [...sampleVerdicts, ...denseVerdicts.flat()];
+
+      frameIncidents = sampledIncidents.map((incident) => {
+        const { startTimestamp, endTimestamp } = flaggedRunBounds(incident.timestamp, timeline);
+        return endTimestamp > startTimestamp
+          ? { ...incident, startTimestamp, endTimestamp }
+          : incident;
+      });
+
+      await writeProgress(writable, {
+        type: "progress",
+        step: "refined",
+        message: `Analyzed ${denseFrames.length} extra frames around flagged moments`,
+        denseFrames: denseFrames.length,
+        percent: 89,
+      });
+    }
+
+    // Step 6: Transcribe the audio track and moderate what is said (skipped for silent videos)
+    let audioIncidents: Awaited<ReturnType<typeof moderateTranscriptStep>>["incidents"] = [];
+    let audio: { hasAudio: boolean; language?: string; segments: number; error?: string } | null = null;
+
+    if (options.transcribeAudio && media.hasAudio) {
+      await writeProgress(writable, {
+        type: "progress",
+        step: "transcribing",
+        message: "Transcribing audio",
+        percent: 90,
+      });
+
+      // Audio failures (no STT key, a rejected chunk, a timeout) are logged and recorded,
+      // so they never cost us the frame verdicts already paid for
+      try {
+        const transcript = await transcribeAudioStep(sourceUrl, filename, options.timeRange);
+
+        if (transcript) {
+          const moderated = await moderateTranscriptStep(transcript, options.provider, policy, prompts.versions);
+          audioIncidents = moderated.incidents;
+          usageRecords.push(...moderated.usage);
+        }
+
+        audio = {
+          hasAudio: transcript !== null,
+          language: transcript?.language,
+          segments: transcript?.segments.length ?? 0,
+        };
+      } catch (error) {
+        console.error("[AUDIO] Audio moderation failed:", error);
+        audio = {
+          hasAudio: true,
+          segments: 0,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      await writeProgress(writable, {
+        type: "progress",
+        step: "transcribed",
+        message: audio.error
+          ? `Audio not analyzed: ${audio.error}`
+          : audio.hasAudio
+            ? `Found ${audioIncidents.length} spoken-language incidents`
+            : "No audio track",
+        audioIncidents: audioIncidents.length,
+        audioError: audio.error,
+        percent: 93,
+      });
+    }
+
+    // Merge frame and audio incidents onto a single timeline
+    // Evidence clips are attached further down, once segments are known
+    const incidents: Array<
+      ((typeof frameIncidents)[number] | (typeof audioIncidents)[number]) & {
+        clipUrl?: string;
+        clipOffset?: number; // Seconds into the clip where this incident happens
+      }
+    > = [...frameIncidents, ...audioIncidents].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Merge consecutive flagged samples (and adjacent speech) into time-ranged segments
+    let segments = buildIncidentSegments(
+      incidents,
+      timeline.filter((point) => !point.flagged).map((point) => point.timestamp)
+    );
+
+    console.log(`Found ${incidents.length} incidents in ${segments.length} segments`);
+
+    // Step 7: Cut evidence clips around each segment - must happen before the original is deleted
+    if (options.evidenceClips.enabled && segments.length > 0) {
+      const clipped = segments.slice(0, options.evidenceClips.maxClips);
+      const clipRanges = clipped.map((segment) =>
+        evidenceClipRange(segment, options.evidenceClips, media.durationSeconds)
+      );
+
+      await writeProgress(writable, {
+        type: "progress",
+        step: "clipping",
+        message: `Cutting ${clipRanges.length} evidence clips`,
+        percent: 94,
+      });
+
+      const clipUrls = await cutEvidenceClipsStep(sourceUrl, filename, clipRanges);
+
+      // Every member incident plays its segment's clip, starting at its own moment
+      segments = segments.map((segment, i) => {
+        const clipUrl = clipUrls[i];
+        if (!clipUrl) return segment;
+
+        segment.memberIndices.forEach((index) => {
+          incidents[index] = {
+            ...incidents[index],
+            clipUrl,
+            clipOffset: Math.max(0, incidents[index].timestamp - clipRanges[i].startSeconds),
+          };
+        });
+        return { ...segment, clipUrl };
+      });
+    }
 
-    console.log(`Found ${incidents.length} incidents in video`);
+    // Step 8: Render the redacted deliverable (optional)
+    // From the same file the segments were timed on - a proxy's timeline can differ from the original's
+    let redactedVideoUrl: string | null = null;
+    const redactionPlan = options.redaction.enabled
+      ? planRedaction(segments, options.redaction, media.durationSeconds)
+      : null;
+
+    if (redactionPlan && !isEmptyRedactionPlan(redactionPlan)) {
+      await writeProgress(writable, {
+        type: "progress",
+        step: "redacting",
+        message: "Rendering redacted video",
+        percent: 95,
+      });
+
+      try {
+        redactedVideoUrl = await renderRedactedVideoStep(sourceUrl, filename, redactionPlan, media.hasAudio);
+      } catch (error) {
+        // The moderation result is still worth returning without the deliverable
+        console.error("Error rendering redacted video:", error);
+      }
+    }
 
     await writeProgress(writable, {
       type: "progress",
       step: "cleanup",
       message: "Cleaning up temporary files",
-      percent: 95,
+      percent: 96,
     });
 
-    // Step 4: Delete the original video from blob
-    if (videoUrl) {
-      await deleteVideoBlob(videoUrl);
-      console.log(`Deleted original video from blob`);
-    }
+    // Step 9: Delete the original video (and proxy) from blob
+    await deleteVideoBlob(videoUrl);
+    if (proxyUrl) await deleteVideoBlob(proxyUrl);
+    console.log(`Deleted original video from blob`);
+
+    const usage = summarizeUsage(usageRecords);
+    console.log(`Used ${usage.total.inputTokens + usage.total.outputTokens} tokens in ${usage.total.calls} calls ($${usage.total.costUsd.toFixed(4)})`);
+    console.log(`Verdict cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses ($${cacheStats.savedUsd.toFixed(4)} saved)`);
 
     const result = {
       incidents,
+      segments,
+      redactedVideoUrl,
       totalFrames: frames.length,
+      analyzedFrames: representativeIndices.length,
+      skippedAnalyses,
+      unanalyzedFrames,
       processedAt: new Date().toISOString(),
+      usage: { ...usage, records: usageRecords },
+      cache: cacheStats,
       metadata: {
         filename: filename,
+        durationSeconds: media.durationSeconds ?? undefined,
+        media,
+        normalized: normalizeReason,
+        storyboard,
+        options,
+        policy, // The full document, so the result can be reproduced after the policy changes
+        prompts, // Prompt version per prompt id, and which were drawn from an A/B split
+        models: [...new Set(usageRecords.map((record) => record.model))], // Every model id that answered
+        audio,
       },
     };
 
@@ -108,6 +520,10 @@ export async function processVideoUpload(videoBuffer: Buffer, filename: string)
       type: "complete",
       message: "Processing complete",
       percent: 100,
+      skippedAnalyses,
+      unanalyzedFrames: unanalyzedFrames.length,
+      costUsd: usage.total.costUsd,
+      cache: cacheStats,
       result,
     });
 
@@ -120,22 +536,34 @@ export async function processVideoUpload(videoBuffer: Buffer, filename: string)
       type: "error",
       message: error instanceof Error ? error.message : "Processing failed",
       error: error instanceof Error ? error.message : String(error),
+      code: isUndecodableVideoError(error) ? "undecodable_video" : undefined,
     });
 
-    // Cleanup: delete uploaded video if it exists
-    if (videoUrl) {
-      try {
-        await deleteVideoBlob(videoUrl);
-        console.log(`Cleaned up blob after error: ${videoUrl}`);
-      } catch (cleanupError) {
-        console.error("Error cleaning up blob:", cleanupError);
-      }
+    // Cleanup: delete uploaded video and proxy
+    try {
+      await deleteVideoBlob(videoUrl);
+      if (proxyUrl) await deleteVideoBlob(proxyUrl);
+      console.log(`Cleaned up blob after error: ${videoUrl}`);
+    } catch (cleanupError) {
+      console.error("Error cleaning up blob:", cleanupError);
     }
 
     throw error; // Re-throw to mark workflow as failed
   }
 }
 
+function describeMedia(media: MediaMetadata) {
+  const parts = [
+    media.durationSeconds !== null ? `${Math.round(media.durationSeconds)}s` : null,
+    media.width && media.height ? `${media.width}x${media.height}` : null,
+    media.frameRate ? `${media.frameRate} fps` : null,
+    media.videoCodec,
+    media.hasAudio ? `audio: ${media.audioCodec}` : "no audio",
+  ];
+
+  return parts.filter(Boolean).join(", ");
+}
+
 async function writeProgress(writable: WritableStream, data: any) {
   "use step";
 
@@ -151,84 +579,280 @@ async function writeProgress(writable: WritableStream, data: any) {
   }
 }
 
-async function processOneFrame(frame: {
+interface SampledFrame {
   buffer: Buffer;
   timestamp: number;
   filename: string;
-}) {
+  hash?: string | null;
+}
+
+// One frame's image verdict, as produced by moderateFrame / moderateFrameWindow
+interface FrameVerdict {
+  isFlagged: boolean;
+  unanalyzed?: boolean; // No provider produced a verdict - the frame goes back to the retry queue
+  error?: string;
+  confidence: number;
+  categories: string | null;
+  rating: "safe" | "16+" | "18+" | null;
+  provider: AIProvider | null; // Who actually produced the verdict after fallbacks
+  providerHealth: ProviderHealth[];
+  needsReview?: boolean; // Providers disagree - human review
+  providerVerdicts?: ProviderVerdict[];
+  analysis?: ContentAnalysis;
+  provenance?: VerdictProvenance; // Prompt version and model behind the verdict
+  usage: UsageRecord[]; // Model calls behind the verdict - a window's calls sit on its first frame
+  cache?: "hit" | "miss"; // Left out when the verdict cache was not consulted
+  savedUsd?: number; // Hits only - what the cached verdict cost when it was first made
+}
+
+interface FrameProcessingOptions {
+  provider?: AIProvider;
+  extractText?: boolean;
+  videoFilename?: string;
+  consensus?: ConsensusOptions;
+  policy?: RatingPolicy;
+  prompts?: PromptSelection;
+  cache?: boolean; // Consult the verdict cache (single-frame calls only)
+}
+
+// Identifies the frame to the offline fixture provider
+function frameSubject(frame: SampledFrame, options: FrameProcessingOptions): ModerationSubject {
+  return {
+    filename: options.videoFilename,
+    timestamp: frame.timestamp,
+    hash: frame.hash,
+  };
+}
+
+async function processOneFrame(
+  frame: SampledFrame,
+  options: FrameProcessingOptions = {}
+) {
   "use step";
 
-  const moderationResult = await moderateFrame(frame);
+  const subject = frameSubject(frame, options);
+  const moderationResult = await moderateFrame(
+    frame,
+    options.provider,
+    subject,
+    options.consensus,
+    options.policy,
+    options.prompts,
+    options.cache
+  );
+
+  return finishFrame(frame, moderationResult, options, subject);
+}
+
+/**
+ * Analyze a window of consecutive frames in batched calls, then finish each frame like processOneFrame
+ * @returns One outcome per frame, in order
+ */
+async function processFrameWindow(
+  frames: SampledFrame[],
+  options: FrameProcessingOptions & { windowSizes: Partial<Record<AIProvider, number>> }
+) {
+  "use step";
+
+  const subjects = frames.map((frame) => frameSubject(frame, options));
+  const moderationResults = await moderateFrameWindow(
+    frames,
+    subjects,
+    options.provider,
+    options.windowSizes,
+    options.policy,
+    options.prompts
+  );
+
+  return Promise.all(
+    frames.map((frame, i) => finishFrame(frame, moderationResults[i], options, subjects[i]))
+  );
+}
+
+async function finishFrame(
+  frame: SampledFrame,
+  moderationResult: FrameVerdict,
+  options: FrameProcessingOptions,
+  subject: ModerationSubject
+) {
+  // Note: Not a step - called from within processOneFrame and processFrameWindow
+  // Reads on-screen text and, for flagged frames, uploads the screenshots and builds the incident
+
+  // No verdict at all - hand the frame back to the workflow's retry queue
+  if (moderationResult.unanalyzed) {
+    return {
+      incident: null,
+      unanalyzed: { error: moderationResult.error },
+      provider: null,
+      providerHealth: moderationResult.providerHealth,
+      usage: moderationResult.usage,
+      cache: moderationResult.cache ?? null,
+      savedUsd: 0,
+    };
+  }
+
+  const textCalls: CallUsage[] = [];
+  const onScreenText = options.extractText
+    ? await readFrameText(frame, options.provider, subject, options.policy, options.prompts, (call) => textCalls.push(call))
+    : null;
+
+  const { priceUsageRecords } = await import("../ai/providers/price-table");
+  const usage = [...moderationResult.usage, ...(await priceUsageRecords(textCalls))];
+
+  const textFlagged = onScreenText !== null && isFlaggedRating(onScreenText.rating, options.policy);
+
+  if (moderationResult.isFlagged || textFlagged || moderationResult.needsReview) {
+    const { highestRating } = await import("../ai/ocr/moderate-content");
 
-  if (moderationResult.isFlagged) {
     const screenshotUrl = await uploadScreenshotToBlob(
       frame.buffer,
       frame.filename
     );
 
+    // Reviewer-safe variant, shown instead of the raw frame until a reviewer reveals it
+    const { blurScreenshot } = await import("./steps/screenshot-variants");
+    const blurred = await blurScreenshot(frame.buffer, frame.filename);
+    const blurredScreenshotUrl = blurred
+      ? await uploadScreenshotToBlob(blurred, `blurred-${frame.filename}`)
+      : undefined;
+
+    // Union of what the image, the text model and the lexicon found
+    const categories = new Set<string>(
+      moderationResult.categories ? moderationResult.categories.split(", ") : []
+    );
+    let confidence = moderationResult.confidence;
+
+    if (onScreenText && textFlagged) {
+      onScreenText.categories.forEach((category) => categories.add(category));
+      confidence = Math.max(confidence, onScreenText.confidence);
+    }
+
     return {
-      timestamp: frame.timestamp,
-      confidence: moderationResult.confidence,
-      categories: moderationResult.categories,
-      screenshotUrl,
-      rating: moderationResult.rating,
-      analysis: moderationResult.analysis,
+      incident: {
+        source: "frame" as const,
+        timestamp: frame.timestamp,
+        confidence,
+        categories: categories.size > 0 ? [...categories].join(", ") : "flagged",
+        screenshotUrl,
+        blurredScreenshotUrl,
+        rating: highestRating(
+          moderationResult.rating as "safe" | "16+" | "18+",
+          onScreenText?.rating ?? "safe"
+        ),
+        analysis: moderationResult.analysis,
+        onScreenText: onScreenText?.text || undefined,
+        lexiconMatches: onScreenText?.lexiconMatches,
+        textAnalysis: onScreenText?.textAnalysis,
+        provider: moderationResult.provider ?? undefined,
+        needsReview: moderationResult.needsReview || undefined,
+        providerVerdicts: moderationResult.providerVerdicts,
+        provenance: mergeProvenance(moderationResult.provenance, onScreenText?.provenance),
+      },
+      unanalyzed: null,
+      provider: moderationResult.provider,
+      providerHealth: moderationResult.providerHealth,
+      usage,
+      cache: moderationResult.cache ?? null,
+      savedUsd: moderationResult.savedUsd ?? 0,
     };
   }
 
-  return null;
+  return {
+    incident: null,
+    unanalyzed: null,
+    provider: moderationResult.provider,
+    providerHealth: moderationResult.providerHealth,
+    usage,
+    cache: moderationResult.cache ?? null,
+    savedUsd: moderationResult.savedUsd ?? 0,
+  };
 }
 
-async function uploadVideoToBlob(videoBuffer: Buffer, filename: string) {
-  "use step";
+async function readFrameText(
+  frame: {
+    buffer: Buffer;
+    timestamp: number;
+    filename: string;
+  },
+  provider?: AIProvider,
+  subject?: ModerationSubject,
+  policy?: RatingPolicy,
+  prompts?: PromptSelection,
+  onUsage?: (usage: CallUsage) => void
+) {
+  // Note: Not a step - called from within processOneFrame
+  // OCR failures are logged and ignored so they never cost us the image verdict
 
-  const blob = await put(filename, videoBuffer, {
-    access: "public",
-    contentType: "video/mp4",
-    addRandomSuffix: true, // Prevent overwrite errors on retry
-  });
+  try {
+    // Dynamic import to avoid workflow serialization issues
+    const { analyzeOnScreenText } = await import("../ai/ocr/extract-text");
+    const { listDetectedCategories } = await import("../ai/ocr/moderate-content");
 
-  return blob.url;
+    const result = await analyzeOnScreenText(frame.buffer, { provider, subject, policy, prompts, onUsage });
+
+    const categories = new Set<string>(result.lexiconMatches.map((match) => match.category));
+    if (result.textRating && isFlaggedRating(result.textRating.rating, policy)) {
+      listDetectedCategories(result.textRating.analysis).forEach((category) =>
+        categories.add(category)
+      );
+    }
+
+    // Lexicon hits are exact word matches, so they count as full confidence
+    const confidence = result.lexiconMatches.length > 0
+      ? 1
+      : (result.textRating?.summary.highestConfidence ?? 0) / 5;
+
+    return {
+      text: result.text,
+      rating: result.rating,
+      categories: [...categories],
+      confidence,
+      lexiconMatches: result.lexiconMatches,
+      textAnalysis: result.textRating?.analysis,
+      provenance: result.provenance,
+    };
+  } catch (error) {
+    console.error("[OCR] Text extraction error:", error);
+    return null;
+  }
 }
 
-async function extractFrames(videoUrl: string, filename: string) {
+async function extractFrames(
+  videoUrl: string,
+  filename: string,
+  sampling: SamplingOptions = DEFAULT_SAMPLING_OPTIONS,
+  limits: FrameLimits = {},
+  storyboard: { plan: StoryboardPlan; durationSeconds: number } | null = null
+) {
   "use step";
 
+  // Not imported at the top - their Node.js imports must stay out of the workflow bundle
+  const { downloadToTempFile } = await import("./steps/temp-files");
+  const { renderStoryboard } = await import("./steps/storyboard-render");
+
   const tmpDir = os.tmpdir();
   const videoId = Date.now();
-  const videoPath = path.join(tmpDir, `${videoId}-${filename}`);
   const framesDir = path.join(tmpDir, `frames-${videoId}`);
+  const hashPath = `${framesDir}.hashes.raw`; // 9x8 grayscale thumbnails for dedup
 
   try {
-    // Download video from blob URL
-    const response = await fetch(videoUrl);
-
-    if (!response.ok) {
-      throw new Error(`Failed to download video: ${response.statusText}`);
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const videoBuffer = Buffer.from(arrayBuffer);
-
-    // Write file with proper error handling
-    await writeFile(videoPath, videoBuffer);
-
-    // Verify file was written correctly
-    const stats = await stat(videoPath);
-    console.log(`Video downloaded: ${stats.size} bytes (expected: ${videoBuffer.length})`);
-
-    if (stats.size !== videoBuffer.length) {
-      throw new Error(`File size mismatch: wrote ${stats.size} bytes, expected ${videoBuffer.length}`);
-    }
+    // Stream video from blob URL to disk (verifies the size before ffmpeg touches it)
+    const videoPath = await downloadToTempFile(videoUrl, filename);
 
     // Create frames directory
     await execAsync(`mkdir -p "${framesDir}"`);
 
-    // Extract frames using ffmpeg (1 frame every 5 seconds)
+    // Extract frames using ffmpeg (scene cuts or fixed interval, see steps/frame-sampling.ts)
+    // showinfo logs one line per frame to stderr, so give it room on long videos
     const outputPattern = path.join(framesDir, "frame-%04d.jpg");
-    await execAsync(
-      `ffmpeg -i "${videoPath}" -vf fps=1/5 "${outputPattern}"`
+    const { stderr: ffmpegLog } = await execAsync(
+      buildExtractFramesCommand(videoPath, outputPattern, sampling, limits, hashPath),
+      { maxBuffer: 64 * 1024 * 1024 }
     );
+    const timestamps = parseFrameTimestamps(ffmpegLog);
+
+    // Perceptual hashes are best-effort - a missing file just disables dedup for this video
+    const hashPixels = await readFile(hashPath).catch(() => null);
 
     // Get list of frame files
     const { stdout } = await execAsync(`ls "${framesDir}"`);
@@ -239,7 +863,7 @@ async function extractFrames(videoUrl: string, filename: string) {
       frameFiles.map(async (frameFile, index) => {
         const framePath = path.join(framesDir, frameFile);
         const buffer = await readFile(framePath);
-        const timestamp = index * 5; // seconds
+        const timestamp = frameTimestampAt(timestamps, index, sampling, limits); // seconds (real pts)
 
         // Clean up frame file
         await unlink(framePath);
@@ -248,103 +872,281 @@ async function extractFrames(videoUrl: string, filename: string) {
           buffer,
           timestamp,
           filename: frameFile,
+          hash: frameHashAt(hashPixels, index),
         };
       })
     );
 
-    // Clean up video file and frames directory
+    // Storyboard of the whole video, while it is still on disk
+    const renderedStoryboard = storyboard
+      ? await renderStoryboard(videoPath, filename, storyboard.plan, storyboard.durationSeconds)
+      : null;
+
+    // Clean up video file, hash thumbnails and frames directory
     await unlink(videoPath);
+    if (hashPixels) await unlink(hashPath);
     await execAsync(`rmdir "${framesDir}"`);
 
-    return frames;
+    return { frames, storyboard: renderedStoryboard };
   } catch (error) {
     console.error("Error extracting frames:", error);
     throw error;
   }
 }
 
-async function moderateFrame(frame: {
-  buffer: Buffer;
-  timestamp: number;
-  filename: string;
-}) {
+async function moderateFrame(
+  frame: {
+    buffer: Buffer;
+    timestamp: number;
+    filename: string;
+  },
+  provider?: AIProvider,
+  subject?: ModerationSubject,
+  consensus?: ConsensusOptions, // Query several providers and merge their verdicts
+  policy?: RatingPolicy, // Thresholds, tiers and flag criteria (defaults to the latest default policy)
+  prompts?: PromptSelection, // Prompt versions for this run
+  useCache = true // Consult the verdict cache (ignored in consensus mode)
+): Promise<FrameVerdict> {
   "use step";
 
+  // Circuit state lives in this process - snapshot it for the progress stream
+  const { getProviderChain } = await import("../ai/providers/provider-factory");
+  const { getProviderHealth } = await import("../ai/providers/circuit-breaker");
+  const providerHealth = () => getProviderHealth(getProviderChain(provider));
+
+  // Consensus providers that answered are billed even when the frame ends up unanalyzed
+  const { priceUsageRecords } = await import("../ai/providers/price-table");
+  const calls: CallUsage[] = [];
+  const onUsage = (call: CallUsage) => calls.push(call);
+
+  // The same image rated with the same prompt, model and policy gets the stored verdict
+  const cached = useCache && !consensus ? await frameVerdictCache(frame.buffer, provider, policy, prompts) : null;
+  if (cached?.hit) {
+    return {
+      ...(await toFrameVerdict(cached.hit.result, policy, providerHealth(), [])),
+      cache: "hit",
+      savedUsd: cached.hit.costUsd,
+    };
+  }
+
   try {
     // Dynamic import to avoid workflow serialization issues
     const { moderateContentSync } = await import("../ai/ocr/moderate-content");
 
     // Use Gemini to analyze the frame
-    const result = await moderateContentSync(frame.buffer);
-
-    // Check if content is flagged (16+ or 18+)
-    const isFlagged = result.rating === "16+" || result.rating === "18+";
-
-    if (isFlagged) {
-      // Build categories array based on detected content
-      const categories: string[] = [];
-
-      // Check 16+ categories
-      if (result.analysis.sixteenPlus.cursing.detected) categories.push("cursing");
-      if (result.analysis.sixteenPlus.moderate_violence.detected) categories.push("moderate_violence");
-      if (result.analysis.sixteenPlus.strong_language.detected) categories.push("strong_language");
-      if (result.analysis.sixteenPlus.mild_sexual_content.detected) categories.push("mild_sexual");
-
-      // Check 18+ categories
-      if (result.analysis.eighteenPlus.nudity.detected) categories.push("nudity");
-      if (result.analysis.eighteenPlus.drug_use.detected) categories.push("drug_use");
-      if (result.analysis.eighteenPlus.rape.detected) categories.push("sexual_assault");
-      if (result.analysis.eighteenPlus.murder.detected) categories.push("murder");
-      if (result.analysis.eighteenPlus.stabbing.detected) categories.push("stabbing");
-      if (result.analysis.eighteenPlus.gore.detected) categories.push("gore");
-      if (result.analysis.eighteenPlus.extreme_profanity.detected) categories.push("extreme_profanity");
-      if (result.analysis.eighteenPlus.disturbing_themes.detected) categories.push("disturbing");
-
-      // Calculate average confidence across all detected categories
-      const confidenceSum = result.summary.highestConfidence;
-      const confidence = confidenceSum / 5; // Normalize to 0-1
-
-      return {
-        isFlagged: true,
-        confidence,
-        categories: categories.length > 0 ? categories.join(", ") : "flagged",
-        rating: result.rating,
-        analysis: result.analysis,
-      };
+    const result = await moderateContentSync(frame.buffer, undefined, {
+      provider,
+      subject,
+      consensus,
+      policy,
+      prompts,
+      onUsage,
+    });
+
+    const usage = await priceUsageRecords(calls);
+    if (cached) {
+      const { rating, analysis, summary, provider: usedProvider, provenance } = result;
+      await cached.store(usedProvider, {
+        result: { rating, analysis, summary, provider: usedProvider, provenance },
+        costUsd: usage.reduce((sum, record) => sum + (record.costUsd ?? 0), 0),
+        createdAt: new Date().toISOString(),
+      });
     }
 
     return {
-      isFlagged: false,
-      confidence: 0,
-      categories: null,
-      rating: "safe",
+      ...(await toFrameVerdict(result, policy, providerHealth(), usage)),
+      cache: cached ? "miss" : undefined,
     };
   } catch (error) {
-    console.error("[MODERATION] Gemini API error:", error);
-
-    // Fallback to mock implementation if API fails
-    const isFlagged = Math.random() < 0.2;
-
-    if (isFlagged) {
-      return {
-        isFlagged: true,
-        confidence: Math.random() * 0.3 + 0.7,
-        categories: ["adult", "violence", "gore"][
-          Math.floor(Math.random() * 3)
-        ],
-        rating: "18+",
-        fallback: true,
-      };
+    console.error("[MODERATION] Frame analysis failed:", error);
+
+    // Never invent a verdict - the workflow re-queues the frame and reports it if it keeps failing
+    return {
+      ...unanalyzedVerdict(error, providerHealth(), await priceUsageRecords(calls)),
+      cache: cached ? "miss" : undefined,
+    };
+  }
+}
+
+async function frameVerdictCache(
+  image: Buffer,
+  provider: AIProvider | undefined,
+  policy: RatingPolicy | undefined,
+  prompts: PromptSelection | undefined
+): Promise<{ hit: CachedVerdict | null; store: (provider: AIProvider, verdict: CachedVerdict) => Promise<void> } | null> {
+  // Note: Not a step - called from within moderateFrame
+  // Cache failures are logged and treated as misses so they never cost us the verdict
+
+  const { getVerdictCache, getVerdictCacheTtlMs, verdictCacheKey } = await import("../ai/cache/cache-factory");
+  const { getProviderChain, getVisionModelId } = await import("../ai/providers/provider-factory");
+  const { createHash } = await import("crypto");
+
+  const cache = await getVerdictCache();
+  if (!cache) return null;
+
+  // One key per provider the call could land on - each model keeps its own verdicts
+  // Exact bytes, never the perceptual hash: pictures that only look alike must not share a verdict
+  const contentHash = createHash("sha256").update(new Uint8Array(image)).digest("hex");
+  const prompt = renderedPromptRef(getPrompt("frame-rating", prompts));
+  const keyFor = (chainProvider: AIProvider) =>
+    verdictCacheKey({
+      contentHash,
+      prompt,
+      model: getVisionModelId(chainProvider),
+      policy: policyRef(policy ?? DEFAULT_RATING_POLICY),
+    });
+
+  let hit: CachedVerdict | null = null;
+  try {
+    for (const chainProvider of getProviderChain(provider)) {
+      hit = await cache.get(keyFor(chainProvider));
+      if (hit) break;
     }
+  } catch (error) {
+    console.error(`[Verdict Cache] ${cache.name} lookup failed:`, error);
+  }
+
+  return {
+    hit,
+    store: async (usedProvider, verdict) => {
+      try {
+        await cache.set(keyFor(usedProvider), verdict, getVerdictCacheTtlMs());
+      } catch (error) {
+        console.error(`[Verdict Cache] ${cache.name} write failed:`, error);
+      }
+    },
+  };
+}
+
+async function moderateFrameWindow(
+  frames: SampledFrame[],
+  subjects: ModerationSubject[],
+  provider?: AIProvider,
+  windowSizes?: Partial<Record<AIProvider, number>>, // Frames per call, per provider
+  policy?: RatingPolicy,
+  prompts?: PromptSelection
+): Promise<FrameVerdict[]> {
+  // Note: Not a step - called from within processFrameWindow
+
+  const { getProviderChain } = await import("../ai/providers/provider-factory");
+  const { getProviderHealth } = await import("../ai/providers/circuit-breaker");
+  const providerHealth = () => getProviderHealth(getProviderChain(provider));
+
+  // The window's calls are booked on its first frame, so each is counted once
+  const { priceUsageRecords } = await import("../ai/providers/price-table");
+  const calls: CallUsage[] = [];
+  const onUsage = (call: CallUsage) => calls.push(call);
+  const usageOf = async (index: number) => (index === 0 ? priceUsageRecords(calls) : []);
+
+  try {
+    // Dynamic import to avoid workflow serialization issues
+    const { moderateContentWindow } = await import("../ai/ocr/moderate-content");
+
+    const { ratings, provider: usedProvider, provenance } = await moderateContentWindow(
+      frames.map((frame, i) => ({ image: frame.buffer, timestamp: frame.timestamp, subject: subjects[i] })),
+      { provider, policy, prompts, windowSizes, subject: { filename: subjects[0]?.filename }, onUsage }
+    );
+    const health = providerHealth();
+
+    // A frame the model skipped goes back to the retry queue on its own
+    return Promise.all(
+      ratings.map(async (rating, i) =>
+        rating
+          ? toFrameVerdict({ ...rating, provider: usedProvider, provenance }, policy, health, await usageOf(i))
+          : unanalyzedVerdict(new Error(`${usedProvider} returned no analysis for this frame`), health, await usageOf(i))
+      )
+    );
+  } catch (error) {
+    console.error("[MODERATION] Frame window analysis failed:", error);
+
+    const health = providerHealth();
+    return Promise.all(frames.map(async (_, i) => unanalyzedVerdict(error, health, await usageOf(i))));
+  }
+}
+
+async function toFrameVerdict(
+  result: ContentRating & { provider: AIProvider; provenance: VerdictProvenance; consensus?: ConsensusResult },
+  policy: RatingPolicy | undefined,
+  providerHealth: ProviderHealth[],
+  usage: UsageRecord[]
+): Promise<FrameVerdict> {
+  // Note: Not a step - called from within moderateFrame and moderateFrameWindow
+
+  // Check if content is flagged - the policy decides which ratings count
+  const isFlagged = isFlaggedRating(result.rating, policy);
+
+  if (isFlagged) {
+    // Build categories array based on detected content (labels come from the category registry)
+    const { listDetectedCategories } = await import("../ai/ocr/moderate-content");
+    const categories = listDetectedCategories(result.analysis);
+
+    // Calculate average confidence across all detected categories
+    const confidenceSum = result.summary.highestConfidence;
+    const confidence = confidenceSum / 5; // Normalize to 0-1
+
+    return {
+      isFlagged: true,
+      confidence,
+      categories: categories.length > 0 ? categories.join(", ") : "flagged",
+      rating: result.rating,
+      provider: result.provider,
+      providerHealth,
+      provenance: result.provenance,
+      needsReview: result.consensus?.disagreement ?? false, // Providers disagree - human review
+      providerVerdicts: result.consensus?.verdicts,
+      analysis: result.analysis,
+      usage,
+    };
+  }
+
+  // The merged verdict is safe but a provider disagrees - still worth a human look
+  if (result.consensus?.disagreement) {
+    const { calculateRating, listDetectedCategories } = await import("../ai/ocr/moderate-content");
+    const { verdicts } = result.consensus;
+    const categories = new Set(verdicts.flatMap((verdict) => listDetectedCategories(verdict.analysis)));
 
     return {
       isFlagged: false,
-      confidence: 0,
-      categories: null,
-      rating: "safe",
-      fallback: true,
+      confidence: Math.max(...verdicts.map((verdict) => calculateRating(verdict.analysis, policy).summary.highestConfidence)) / 5,
+      categories: categories.size > 0 ? [...categories].join(", ") : "flagged",
+      rating: result.rating,
+      provider: result.provider,
+      providerHealth,
+      provenance: result.provenance,
+      needsReview: true,
+      providerVerdicts: verdicts,
+      usage,
     };
   }
+
+  return {
+    isFlagged: false,
+    confidence: 0,
+    categories: null,
+    rating: result.rating, // May be rated without being flagged, depending on the policy
+    provider: result.provider,
+    providerHealth,
+    provenance: result.provenance,
+    usage,
+  };
+}
+
+function unanalyzedVerdict(
+  error: unknown,
+  providerHealth: ProviderHealth[],
+  usage: UsageRecord[]
+): FrameVerdict {
+  return {
+    isFlagged: false,
+    unanalyzed: true,
+    error: error instanceof Error ? error.message : String(error),
+    confidence: 0,
+    categories: null,
+    rating: null,
+    provider: null,
+    providerHealth,
+    usage,
+  };
 }
 
 async function uploadScreenshotToBlob(buffer: Buffer, filename: string) {
@@ -0,0 +1,159 @@
+// No top-level imports of Node.js modules or AI SDK
+// Dynamic imports are used inside the step functions to avoid workflow serialization issues
+
+import type { AIProvider } from "../../ai/providers/provider-factory";
+import type { Transcript } from "../../ai/transcription/types";
+import type { RatingPolicy } from "../../lib/rating-policy";
+import type { CallUsage } from "../../ai/providers/usage";
+import type { PromptSelection } from "../../ai/prompts/registry";
+
+// Whisper rejects files over 25MB - 20 minutes of 64kbps audio is about 9.6MB, well inside it
+const AUDIO_CHUNK_SECONDS = 20 * 60;
+
+/**
+ * Extract the audio track with ffmpeg and transcribe it
+ * Long tracks are split into chunks that each fit the speech-to-text upload limit, and every
+ * chunk's segments are shifted by where the chunk starts. Words cut at a chunk boundary may be
+ * transcribed on either side of it, or split between the two.
+ * @returns Transcript with timestamps relative to the original video, or null if there is no audio
+ */
+export async function transcribeAudioStep(
+  videoUrl: string,
+  filename: string,
+  timeRange?: { startSeconds: number; endSeconds?: number }
+): Promise<Transcript | null> {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { mkdir, readFile } = await import("fs/promises");
+  const path = await import("path");
+  const { downloadToTempFile, removeTempFiles } = await import("./temp-files");
+  const { getTranscriber } = await import("../../ai/transcription/transcriber-factory");
+
+  const execAsync = promisify(exec);
+
+  const videoPath = await downloadToTempFile(videoUrl, filename);
+  const audioDir = `${videoPath}.audio`;
+  const chunkList = path.join(audioDir, "chunks.csv");
+  const startSeconds = timeRange?.startSeconds ?? 0;
+
+  try {
+    await mkdir(audioDir, { recursive: true });
+
+    // Mono 16kHz 64kbps MP3 - plenty for speech - cut into chunks, with each chunk's range listed in the CSV
+    const rangeArgs = [
+      startSeconds > 0 ? `-ss ${startSeconds}` : "",
+      timeRange?.endSeconds !== undefined ? `-t ${timeRange.endSeconds - startSeconds}` : "",
+    ].filter(Boolean).join(" ");
+
+    try {
+      await execAsync(
+        `ffmpeg ${rangeArgs} -i "${videoPath}" -map 0:a:0 -vn -ac 1 -ar 16000 -b:a 64k ` +
+          `-f segment -segment_time ${AUDIO_CHUNK_SECONDS} -reset_timestamps 1 ` +
+          `-segment_list "${chunkList}" -segment_list_type csv "${path.join(audioDir, "chunk-%03d.mp3")}"`
+      );
+    } catch (error) {
+      // ffmpeg refuses to write an output with no streams when the video is silent
+      const message = error instanceof Error ? error.message : String(error);
+      if (/matches no streams|does not contain any stream/i.test(message)) {
+        console.log(`No audio track found in ${filename}`);
+        return null;
+      }
+      throw error;
+    }
+
+    // Each line is "chunk-000.mp3,<start>,<end>" in seconds from the start of the extracted audio
+    const chunks = (await readFile(chunkList, "utf8"))
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [file, start, end] = line.split(",");
+        return { path: path.join(audioDir, path.basename(file)), start: Number(start), end: Number(end) };
+      });
+
+    const transcriber = getTranscriber();
+    const transcripts: Transcript[] = [];
+    let segments: Transcript["segments"] = [];
+
+    // One chunk at a time - only one is held in memory
+    for (const chunk of chunks) {
+      const offsetSeconds = startSeconds + chunk.start;
+      const transcript = await transcriber.transcribe(await readFile(chunk.path), {
+        filename,
+        offsetSeconds,
+        durationSeconds: chunk.end - chunk.start,
+      });
+      transcripts.push(transcript);
+
+      // Chunk timestamps restart at 0 - shift back onto the video timeline
+      segments = segments.concat(
+        transcript.segments.map((segment) => ({
+          ...segment,
+          start: segment.start + offsetSeconds,
+          end: segment.end + offsetSeconds,
+        }))
+      );
+    }
+
+    if (chunks.length > 1) {
+      console.log(`Transcribed ${filename} in ${chunks.length} chunks of up to ${AUDIO_CHUNK_SECONDS / 60} minutes`);
+    }
+
+    return {
+      text: transcripts.map((transcript) => transcript.text).filter(Boolean).join(" "),
+      segments,
+      language: transcripts.find((transcript) => transcript.language)?.language,
+      provider: transcriber.name,
+    };
+  } finally {
+    await removeTempFiles(videoPath, audioDir);
+  }
+}
+
+/**
+ * Moderate a transcript and shape the results like frame incidents
+ * Audio incidents have no screenshot; the offending speech is kept in `transcript`
+ * @returns The incidents and the priced usage of every transcript window
+ */
+export async function moderateTranscriptStep(
+  transcript: Transcript,
+  provider?: AIProvider,
+  policy?: RatingPolicy,
+  prompts?: PromptSelection
+) {
+  "use step";
+
+  // Dynamic import - only loaded at runtime, not during workflow serialization
+  const { moderateTranscript } = await import("../../ai/ocr/moderate-transcript");
+  const { listDetectedCategories } = await import("../../ai/ocr/moderate-content");
+  const { priceUsageRecords } = await import("../../ai/providers/price-table");
+
+  const calls: CallUsage[] = [];
+  const incidents = await moderateTranscript(transcript, {
+    provider,
+    policy,
+    prompts,
+    onUsage: (call) => calls.push(call),
+  });
+
+  const audioIncidents = incidents.map(({ segment, result, provenance }) => {
+    const categories = listDetectedCategories(result.analysis);
+
+    return {
+      source: "audio" as const,
+      timestamp: segment.start,
+      endTimestamp: segment.end,
+      confidence: result.summary.highestConfidence / 5, // Normalize to 0-1
+      categories: categories.length > 0 ? categories.join(", ") : "flagged",
+      screenshotUrl: "",
+      rating: result.rating,
+      analysis: result.analysis,
+      transcript: segment.text,
+      provenance,
+    };
+  });
+
+  return { incidents: audioIncidents, usage: await priceUsageRecords(calls) };
+}
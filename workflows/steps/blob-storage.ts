@@ -5,11 +5,12 @@ export async function uploadVideoToBlob(videoBuffer: Buffer, filename: string) {
   "use step";
 
   // Dynamic import - only loaded at runtime, not during workflow serialization
-  const { put } = await import("@vercel/blob");
+  const { put } = await import("../../lib/blob-store");
+  const { detectContainer } = await import("../../lib/container-detection");
 
   const blob = await put(filename, videoBuffer, {
     access: "public",
-    contentType: "video/mp4",
+    contentType: detectContainer(videoBuffer)?.mimeType ?? "application/octet-stream",
     addRandomSuffix: true, // Prevent overwrite errors on retry
   });
 
@@ -20,7 +21,7 @@ export async function uploadScreenshotToBlob(buffer: Buffer, filename: string) {
   "use step";
 
   // Dynamic import - only loaded at runtime, not during workflow serialization
-  const { put } = await import("@vercel/blob");
+  const { put } = await import("../../lib/blob-store");
 
   const screenshotName = `screenshots/${filename}`;
 
@@ -38,7 +39,7 @@ export async function uploadFrameToBlob(buffer: Buffer, filename: string) {
   // Uploads individual frame to blob storage
 
   // Dynamic import - only loaded at runtime, not during workflow serialization
-  const { put } = await import("@vercel/blob");
+  const { put } = await import("../../lib/blob-store");
 
   const frameName = `frames/${filename}`;
 
@@ -55,7 +56,7 @@ export async function deleteVideoBlob(videoUrl: string) {
   "use step";
 
   // Dynamic import - only loaded at runtime, not during workflow serialization
-  const { del } = await import("@vercel/blob");
+  const { del } = await import("../../lib/blob-store");
 
   try {
     await del(videoUrl);
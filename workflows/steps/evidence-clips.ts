@@ -0,0 +1,93 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the step function to avoid workflow serialization issues
+
+export interface EvidenceClipOptions {
+  enabled: boolean;
+  paddingBeforeSeconds: number; // Context kept before the flagged content starts
+  paddingAfterSeconds: number; // ...and after it ends
+  maxClipSeconds: number; // Long segments are cut to this length around their start
+  maxClips: number; // Per video, earliest segments first
+}
+
+export interface ClipRange {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * Padded range to cut for a flagged segment, clamped to the video
+ */
+export function evidenceClipRange(
+  segment: { startTimestamp: number; endTimestamp: number },
+  options: EvidenceClipOptions,
+  durationSeconds: number | null
+): ClipRange {
+  const startSeconds = Math.max(0, segment.startTimestamp - options.paddingBeforeSeconds);
+  const paddedEnd = segment.endTimestamp + options.paddingAfterSeconds;
+  const endSeconds = Math.min(
+    paddedEnd,
+    startSeconds + options.maxClipSeconds,
+    durationSeconds ?? paddedEnd
+  );
+
+  return { startSeconds, endSeconds: Math.max(endSeconds, startSeconds) };
+}
+
+/**
+ * Cut a short MP4 around each range and upload it next to the screenshots
+ * @returns Blob URL per range, in order - null where cutting or uploading failed
+ */
+export async function cutEvidenceClipsStep(
+  videoUrl: string,
+  filename: string,
+  ranges: ClipRange[]
+): Promise<(string | null)[]> {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { readFile } = await import("fs/promises");
+  const { put } = await import("../../lib/blob-store");
+  const { downloadToTempFile, removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+
+  const videoPath = await downloadToTempFile(videoUrl, filename);
+  const baseName = filename.replace(/\.[^/.]+$/, "");
+  const clipUrls: (string | null)[] = [];
+
+  try {
+    for (const [index, range] of ranges.entries()) {
+      const clipPath = `${videoPath}.clip-${index}.mp4`;
+
+      try {
+        // Re-encode (rather than stream copy) so the clip starts exactly at the range, not the previous keyframe
+        // 480p with faststart keeps clips small and playable before they fully download
+        await execAsync(
+          `ffmpeg -ss ${range.startSeconds} -i "${videoPath}" -t ${range.endSeconds - range.startSeconds} ` +
+            `-map 0:v:0 -map 0:a:0? -vf "scale=-2:'min(480,ih)'" -c:v libx264 -preset veryfast -crf 28 ` +
+            `-pix_fmt yuv420p -c:a aac -b:a 96k -movflags +faststart "${clipPath}"`
+        );
+
+        const blob = await put(`clips/${baseName}-${Math.round(range.startSeconds)}s.mp4`, await readFile(clipPath), {
+          access: "public",
+          contentType: "video/mp4",
+          addRandomSuffix: true, // Prevent overwrite errors on retry
+        });
+
+        clipUrls.push(blob.url);
+      } catch (error) {
+        // One bad clip shouldn't cost the others (or the moderation result)
+        console.error(`Error cutting evidence clip ${index}:`, error);
+        clipUrls.push(null);
+      } finally {
+        await removeTempFiles(clipPath);
+      }
+    }
+
+    return clipUrls;
+  } finally {
+    await removeTempFiles(videoPath);
+  }
+}
@@ -0,0 +1,94 @@
+// No top-level imports of Node.js modules
+// Pure helpers for perceptual-hash deduplication - safe to import from workflow code
+
+/**
+ * dHash input size: 9x8 grayscale pixels give 8 horizontal gradients per row, 64 bits total
+ */
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+export const HASH_BYTES = HASH_WIDTH * HASH_HEIGHT;
+
+/**
+ * Compute a 64-bit difference hash from a 9x8 grayscale thumbnail
+ * Each bit records whether a pixel is darker than its right-hand neighbour,
+ * which survives re-encoding, small shifts and brightness changes
+ * @param pixels - HASH_BYTES bytes of 8-bit grayscale, row-major
+ * @returns 16-character hex string
+ */
+export function computeDHash(pixels: ArrayLike<number>): string {
+  let hex = "";
+
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let byte = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const left = pixels[row * HASH_WIDTH + col];
+      const right = pixels[row * HASH_WIDTH + col + 1];
+      byte = (byte << 1) | (left < right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Group frames whose hashes are within `maxDistance` bits of a cluster's first frame
+ *
+ * Every frame is compared against all existing representatives, not just the previous
+ * frame, so a talking head that cuts away and back lands in the same cluster.
+ * Frames without a hash always get their own cluster.
+ *
+ * @param hashes - One hash (or null) per frame, in timeline order
+ * @param maxDistance - Largest Hamming distance still considered a duplicate
+ * @returns For each frame, the index of its cluster's representative (itself if it is one)
+ */
+export function clusterFrames(
+  hashes: Array<string | null | undefined>,
+  maxDistance: number
+): number[] {
+  const representatives: number[] = [];
+
+  return hashes.map((hash, index) => {
+    if (hash) {
+      const match = representatives.find(
+        (rep) => hammingDistance(hashes[rep] as string, hash) <= maxDistance
+      );
+      if (match !== undefined) return match;
+    }
+
+    representatives.push(index);
+    return index;
+  });
+}
+
+/**
+ * Hash for the frame at `index` in ffmpeg's raw thumbnail output
+ * @param raw - Concatenated HASH_BYTES-sized grayscale frames (a Buffer), or null if hashing failed
+ * @returns Hash, or null when that frame's thumbnail is missing
+ */
+export function frameHashAt(
+  raw: { length: number; subarray(start: number, end: number): ArrayLike<number> } | null,
+  index: number
+): string | null {
+  const start = index * HASH_BYTES;
+  if (!raw || raw.length < start + HASH_BYTES) return null;
+
+  return computeDHash(raw.subarray(start, start + HASH_BYTES));
+}
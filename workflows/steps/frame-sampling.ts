@@ -0,0 +1,152 @@
+// No top-level imports of Node.js modules
+// Pure helpers shared by every extractFrames implementation - safe to import from workflow code
+
+import { HASH_WIDTH, HASH_HEIGHT } from "./frame-dedup";
+
+/**
+ * How frames are picked from the video
+ * - "interval": one frame every `intervalSeconds`
+ * - "scene": a frame on every scene cut, bounded by the min/max interval floor
+ */
+export type SamplingMode = "interval" | "scene";
+
+export interface SamplingOptions {
+  mode: SamplingMode;
+  intervalSeconds: number; // Used by "interval" mode
+  sceneThreshold: number; // Scene change score (0-1) that counts as a cut
+  minIntervalSeconds: number; // Never sample two frames closer than this
+  maxIntervalSeconds: number; // Always sample at least this often, even without cuts
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  mode: "scene",
+  intervalSeconds: 5,
+  sceneThreshold: 0.3,
+  minIntervalSeconds: 1,
+  maxIntervalSeconds: 5,
+};
+
+/**
+ * Bounds on what gets extracted, independent of the sampling mode
+ */
+export interface FrameLimits {
+  maxFrames?: number; // Stop after this many frames
+  startSeconds?: number; // Only analyze from here...
+  endSeconds?: number; // ...up to here
+}
+
+/**
+ * Build the ffmpeg video filter for the requested sampling mode
+ *
+ * Both modes use `select` rather than `fps` so the original presentation
+ * timestamps survive - `fps` re-times its output onto a fixed grid, which is
+ * exactly the drift we are trying to avoid on variable-frame-rate files.
+ * `showinfo` then prints each selected frame's real pts_time to stderr.
+ */
+export function buildSamplingFilter(options: SamplingOptions): string {
+  // First frame is always selected (prev_selected_t is NaN until something is picked)
+  const first = "isnan(prev_selected_t)";
+  const since = "t-prev_selected_t";
+
+  let expression: string;
+  if (options.mode === "interval") {
+    expression = `${first}+gte(${since},${options.intervalSeconds})`;
+  } else {
+    expression =
+      `${first}` +
+      `+gte(${since},${options.maxIntervalSeconds})` +
+      `+gt(scene,${options.sceneThreshold})*gte(${since},${options.minIntervalSeconds})`;
+  }
+
+  return `select='${expression}',showinfo`;
+}
+
+/**
+ * Build the full ffmpeg command that writes sampled frames as JPEGs
+ * `-fps_mode vfr` keeps ffmpeg from duplicating frames to fill the gaps between selections
+ * `-copyts` keeps timestamps relative to the original file when seeking into a time range
+ *
+ * When `hashPath` is given, the selected frames are split into a second output of
+ * tiny grayscale thumbnails (see frame-dedup.ts) so hashing costs no extra decode pass.
+ */
+export function buildExtractFramesCommand(
+  videoPath: string,
+  outputPattern: string,
+  options: SamplingOptions,
+  limits: FrameLimits = {},
+  hashPath?: string
+): string {
+  const filter = buildSamplingFilter(options);
+
+  const inputArgs: string[] = [];
+  if (limits.startSeconds && limits.startSeconds > 0) {
+    inputArgs.push(`-ss ${limits.startSeconds}`);
+  }
+  if (limits.endSeconds !== undefined) {
+    inputArgs.push(`-t ${limits.endSeconds - (limits.startSeconds ?? 0)}`);
+  }
+  if (inputArgs.length > 0) {
+    inputArgs.push("-copyts");
+  }
+
+  // Options that must be repeated for every output file
+  const perOutputArgs = ["-fps_mode vfr"];
+  if (limits.maxFrames !== undefined) {
+    perOutputArgs.push(`-frames:v ${limits.maxFrames}`);
+  }
+
+  const outputArgs = hashPath
+    ? [
+        `-filter_complex "[0:v]${filter},split=2[full][small];` +
+          `[small]scale=${HASH_WIDTH}:${HASH_HEIGHT}:flags=area,format=gray[hash]"`,
+        `-map "[full]"`,
+        ...perOutputArgs,
+        `"${outputPattern}"`,
+        `-map "[hash]"`,
+        ...perOutputArgs,
+        `-f rawvideo "${hashPath}"`,
+      ]
+    : [`-vf "${filter}"`, ...perOutputArgs, `"${outputPattern}"`];
+
+  return ["ffmpeg", ...inputArgs, `-i "${videoPath}"`, ...outputArgs].join(" ");
+}
+
+/**
+ * Parse the pts_time of every frame reported by the showinfo filter
+ * @param ffmpegLog - ffmpeg stderr output
+ * @returns Timestamps in seconds, ordered by output frame index
+ */
+export function parseFrameTimestamps(ffmpegLog: string): number[] {
+  const timestamps: number[] = [];
+  const pattern = /\bn:\s*(\d+)\s+pts:\s*-?\d+\s+pts_time:\s*(-?[\d.]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(ffmpegLog)) !== null) {
+    const index = Number(match[1]);
+    const ptsTime = Number(match[2]);
+    // Round to milliseconds - more precision is noise for moderation purposes
+    timestamps[index] = Math.max(0, Math.round(ptsTime * 1000) / 1000);
+  }
+
+  return timestamps;
+}
+
+/**
+ * Timestamp for the frame at `index`, falling back to the nominal interval
+ * if ffmpeg didn't report a pts for it
+ */
+export function frameTimestampAt(
+  timestamps: number[],
+  index: number,
+  options: SamplingOptions,
+  limits: FrameLimits = {}
+): number {
+  const timestamp = timestamps[index];
+  if (typeof timestamp === "number" && !Number.isNaN(timestamp)) {
+    return timestamp;
+  }
+
+  const interval =
+    options.mode === "interval" ? options.intervalSeconds : options.maxIntervalSeconds;
+  return (limits.startSeconds ?? 0) + index * interval;
+}
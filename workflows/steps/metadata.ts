@@ -0,0 +1,173 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the step function to avoid workflow serialization issues
+
+import { UndecodableVideoError } from "../errors";
+import type { ContainerFormat } from "../../lib/container-detection";
+
+/**
+ * Technical metadata for an uploaded video, as reported by ffprobe
+ */
+export interface MediaMetadata {
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  frameRate: number | null; // Average frames per second
+  videoCodec: string | null;
+  audioCodec: string | null;
+  hasAudio: boolean;
+  rotation: number; // Degrees clockwise the player should rotate the picture (0, 90, 180, 270)
+  bitrate: number | null; // Overall bits per second
+  container: string | null; // ffprobe's demuxer name, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  format: ContainerFormat | null; // Container detected from magic bytes
+  sizeBytes: number | null;
+}
+
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  duration?: string;
+  tags?: Record<string, string>;
+  side_data_list?: Array<{ rotation?: number }>;
+}
+
+interface ProbeOutput {
+  streams?: ProbeStream[];
+  format?: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    size?: string;
+  };
+}
+
+/**
+ * Parse a positive number out of an ffprobe field, which may be missing or "N/A"
+ */
+function toNumber(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse an ffprobe rational like "30000/1001"
+ */
+function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [numerator, denominator] = rate.split("/").map(Number);
+  if (!denominator) return toNumber(numerator);
+  const fps = numerator / denominator;
+  return Number.isFinite(fps) && fps > 0 ? Math.round(fps * 1000) / 1000 : null;
+}
+
+/**
+ * Convert `ffprobe -print_format json -show_format -show_streams` output into MediaMetadata
+ */
+export function parseProbeOutput(
+  probe: ProbeOutput,
+  format: ContainerFormat | null = null
+): MediaMetadata {
+  const streams = probe.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const audio = streams.find((stream) => stream.codec_type === "audio");
+
+  // Older muxers use a "rotate" tag, newer ones a display matrix (counter-clockwise, so negate)
+  const matrixRotation = video?.side_data_list?.find((data) => data.rotation !== undefined)?.rotation;
+  const rawRotation = video?.tags?.rotate !== undefined
+    ? Number(video.tags.rotate)
+    : matrixRotation !== undefined ? -matrixRotation : 0;
+  const rotation = ((Math.round(rawRotation / 90) * 90) % 360 + 360) % 360;
+
+  return {
+    durationSeconds: toNumber(probe.format?.duration) ?? toNumber(video?.duration),
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    frameRate: parseFrameRate(video?.avg_frame_rate) ?? parseFrameRate(video?.r_frame_rate),
+    videoCodec: video?.codec_name ?? null,
+    audioCodec: audio?.codec_name ?? null,
+    hasAudio: audio !== undefined,
+    rotation,
+    bitrate: toNumber(probe.format?.bit_rate),
+    container: probe.format?.format_name ?? null,
+    format,
+    sizeBytes: toNumber(probe.format?.size),
+  };
+}
+
+/**
+ * Fetch the first bytes of a blob with a Range request
+ * Servers that ignore Range send the whole body - only the first `length` bytes are read before it is dropped
+ * Note: Not a step - called from within probeVideoStep
+ */
+async function fetchHeadBytes(url: string, length: number): Promise<Uint8Array> {
+  const controller = new AbortController();
+  const response = await fetch(url, { headers: { Range: `bytes=0-${length - 1}` }, signal: controller.signal });
+
+  if (!response.ok || !response.body) {
+    controller.abort();
+    throw new Error(`Failed to read video header: ${response.statusText}`);
+  }
+
+  const head = new Uint8Array(length);
+  let received = 0;
+  const reader = response.body.getReader();
+
+  try {
+    while (received < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, length - received);
+      head.set(chunk, received);
+      received += chunk.length;
+    }
+  } finally {
+    controller.abort(); // Drops the rest of a full-body response
+  }
+
+  return head.subarray(0, received);
+}
+
+/**
+ * Probe an uploaded video without downloading it
+ * ffprobe reads the URL itself, seeking with range requests to the parts it needs (the moov atom, stream headers)
+ */
+export async function probeVideoStep(videoUrl: string, filename: string): Promise<MediaMetadata> {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { execFile } = await import("child_process");
+  const { promisify } = await import("util");
+  const { detectContainer, DETECTION_BYTES } = await import("../../lib/container-detection");
+
+  const execFileAsync = promisify(execFile);
+
+  // Identify the container from its magic bytes - filenames and MIME types lie
+  const detected = detectContainer(await fetchHeadBytes(videoUrl, DETECTION_BYTES));
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      "ffprobe",
+      ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", videoUrl],
+      { maxBuffer: 16 * 1024 * 1024, timeout: 120000 } // 2 minute timeout
+    ));
+  } catch (error) {
+    console.error(`ffprobe failed for ${filename}:`, error);
+    throw new UndecodableVideoError(
+      `${filename} could not be read as a video${detected ? ` (detected ${detected.format})` : ""}`
+    );
+  }
+
+  const metadata = parseProbeOutput(JSON.parse(stdout), detected?.format ?? null);
+  console.log(`Probed ${filename}:`, metadata);
+
+  if (!metadata.videoCodec) {
+    throw new UndecodableVideoError(`${filename} contains no video stream`);
+  }
+
+  return metadata;
+}
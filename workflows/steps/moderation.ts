@@ -1,42 +1,58 @@
 // No top-level imports of Node.js modules or AI SDK
 // Dynamic imports are used inside the step function to avoid workflow serialization issues
 
-export async function moderateFrameStep(frame: {
-  url: string;  // Frame URL from blob storage (instead of buffer)
-  timestamp: number;
-  filename: string;
-}) {
+import type { AIProvider } from "../../ai/providers/provider-factory";
+import type { ModerationSubject } from "../../ai/providers/fixture-provider";
+import type { ConsensusOptions } from "../../ai/ocr/consensus";
+import type { RatingPolicy } from "../../lib/rating-policy";
+import type { CallUsage } from "../../ai/providers/usage";
+import type { PromptSelection } from "../../ai/prompts/registry";
+
+export async function moderateFrameStep(
+  frame: {
+    url: string;  // Frame URL from blob storage (instead of buffer)
+    timestamp: number;
+    filename: string;
+  },
+  provider?: AIProvider,
+  subject?: ModerationSubject, // Identifies the frame to the offline fixture provider
+  consensus?: ConsensusOptions, // Query several providers and merge their verdicts
+  policy?: RatingPolicy, // Thresholds, tiers and flag criteria (defaults to the latest default policy)
+  prompts?: PromptSelection // Prompt versions for this run
+) {
   "use step";
 
+  // Circuit state lives in this process - snapshot it for the progress stream
+  const { getProviderChain } = await import("../../ai/providers/provider-factory");
+  const { getProviderHealth } = await import("../../ai/providers/circuit-breaker");
+  const providerHealth = () => getProviderHealth(getProviderChain(provider));
+
+  // Priced usage of every call that answered, even when the frame ends up unanalyzed
+  const { priceUsageRecords } = await import("../../ai/providers/price-table");
+  const calls: CallUsage[] = [];
+
   try {
     // Dynamic import - only loaded at runtime, not during workflow serialization
     const { moderateContentSync } = await import("../../ai/ocr/moderate-content");
 
     // Use Gemini to analyze the frame (pass URL instead of buffer)
-    const result = await moderateContentSync(frame.url);
+    const result = await moderateContentSync(frame.url, undefined, {
+      provider,
+      subject,
+      consensus,
+      policy,
+      prompts,
+      onUsage: (call) => calls.push(call),
+    });
 
-    // Check if content is flagged (16+ or 18+)
-    const isFlagged = result.rating === "16+" || result.rating === "18+";
+    // Check if content is flagged - the policy decides which ratings count
+    const { isFlaggedRating } = await import("../../lib/rating-policy");
+    const isFlagged = isFlaggedRating(result.rating, policy);
 
     if (isFlagged) {
-      // Build categories array based on detected content
-      const categories: string[] = [];
-
-      // Check 16+ categories
-      if (result.analysis.sixteenPlus.cursing.detected) categories.push("cursing");
-      if (result.analysis.sixteenPlus.moderate_violence.detected) categories.push("moderate_violence");
-      if (result.analysis.sixteenPlus.strong_language.detected) categories.push("strong_language");
-      if (result.analysis.sixteenPlus.mild_sexual_content.detected) categories.push("mild_sexual");
-
-      // Check 18+ categories
-      if (result.analysis.eighteenPlus.nudity.detected) categories.push("nudity");
-      if (result.analysis.eighteenPlus.drug_use.detected) categories.push("drug_use");
-      if (result.analysis.eighteenPlus.rape.detected) categories.push("sexual_assault");
-      if (result.analysis.eighteenPlus.murder.detected) categories.push("murder");
-      if (result.analysis.eighteenPlus.stabbing.detected) categories.push("stabbing");
-      if (result.analysis.eighteenPlus.gore.detected) categories.push("gore");
-      if (result.analysis.eighteenPlus.extreme_profanity.detected) categories.push("extreme_profanity");
-      if (result.analysis.eighteenPlus.disturbing_themes.detected) categories.push("disturbing");
+      // Build categories array based on detected content (labels come from the category registry)
+      const { listDetectedCategories } = await import("../../ai/ocr/moderate-content");
+      const categories = listDetectedCategories(result.analysis);
 
       // Calculate average confidence across all detected categories
       const confidenceSum = result.summary.highestConfidence;
@@ -47,42 +63,112 @@ export async function moderateFrameStep(frame: {
         confidence,
         categories: categories.length > 0 ? categories.join(", ") : "flagged",
         rating: result.rating,
+        provider: result.provider, // Who actually produced the verdict after fallbacks
+        provenance: result.provenance, // Prompt version and model behind the verdict
+        providerHealth: providerHealth(),
+        usage: await priceUsageRecords(calls),
+        needsReview: result.consensus?.disagreement ?? false, // Providers disagree - human review
+        providerVerdicts: result.consensus?.verdicts,
         detailsixteenPlusDetections: result.summary.sixteenPlusDetections,
         eighteenPlusDetections: result.summary.eighteenPlusDetections,
       };
     }
 
+    // The merged verdict is safe but a provider disagrees - still worth a human look
+    if (result.consensus?.disagreement) {
+      const { calculateRating, listDetectedCategories } = await import("../../ai/ocr/moderate-content");
+      const { verdicts } = result.consensus;
+      const categories = new Set(verdicts.flatMap((verdict) => listDetectedCategories(verdict.analysis)));
+
+      return {
+        isFlagged: false,
+        confidence: Math.max(...verdicts.map((verdict) => calculateRating(verdict.analysis, policy).summary.highestConfidence)) / 5,
+        categories: categories.size > 0 ? [...categories].join(", ") : "flagged",
+        rating: result.rating,
+        provider: result.provider,
+        provenance: result.provenance,
+        providerHealth: providerHealth(),
+        usage: await priceUsageRecords(calls),
+        needsReview: true,
+        providerVerdicts: verdicts,
+      };
+    }
+
     return {
       isFlagged: false,
       confidence: 0,
       categories: null,
-      rating: "safe",
+      rating: result.rating, // May be rated without being flagged, depending on the policy
+      provider: result.provider,
+      provenance: result.provenance,
+      providerHealth: providerHealth(),
+      usage: await priceUsageRecords(calls),
     };
   } catch (error) {
-    console.error("[MODERATION] Gemini API error:", error);
-
-    // Fallback to mock implementation if API fails
-    // This ensures the workflow doesn't break if the API is unavailable
-    const isFlagged = Math.random() < 0.2;
-
-    if (isFlagged) {
-      return {
-        isFlagged: true,
-        confidence: Math.random() * 0.3 + 0.7,
-        categories: ["adult", "violence", "gore"][
-          Math.floor(Math.random() * 3)
-        ],
-        rating: "18+",
-        fallback: true,
-      };
-    }
+    console.error("[MODERATION] Frame analysis failed:", error);
 
+    // Never invent a verdict - the workflow re-queues the frame and reports it if it keeps failing
     return {
       isFlagged: false,
+      unanalyzed: true,
+      error: error instanceof Error ? error.message : String(error),
       confidence: 0,
       categories: null,
+      rating: null,
+      provider: null,
+      providerHealth: providerHealth(),
+      usage: await priceUsageRecords(calls),
+    };
+  }
+}
+
+export async function analyzeFrameTextStep(
+  frame: {
+    url: string;  // Frame URL from blob storage (instead of buffer)
+    timestamp: number;
+    filename: string;
+  },
+  provider?: AIProvider,
+  subject?: ModerationSubject, // Identifies the frame to the offline fixture provider
+  policy?: RatingPolicy,
+  prompts?: PromptSelection
+) {
+  "use step";
+
+  const { priceUsageRecords } = await import("../../ai/providers/price-table");
+  const calls: CallUsage[] = [];
+
+  try {
+    // Dynamic import - only loaded at runtime, not during workflow serialization
+    const { analyzeOnScreenText } = await import("../../ai/ocr/extract-text");
+
+    // Read visible text, match it against the lexicon and rate it
+    const result = await analyzeOnScreenText(frame.url, {
+      provider,
+      subject,
+      policy,
+      prompts,
+      onUsage: (call) => calls.push(call),
+    });
+
+    return {
+      text: result.text,
+      rating: result.rating,
+      lexiconMatches: result.lexiconMatches,
+      textAnalysis: result.textRating?.analysis,
+      provenance: result.provenance,
+      usage: await priceUsageRecords(calls),
+    };
+  } catch (error) {
+    console.error("[OCR] Text extraction error:", error);
+
+    // OCR is supplementary - report no text rather than failing the frame
+    return {
+      text: "",
       rating: "safe",
-      fallback: true,
+      lexiconMatches: [],
+      textAnalysis: undefined,
+      usage: await priceUsageRecords(calls),
     };
   }
 }
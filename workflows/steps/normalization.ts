@@ -0,0 +1,82 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the step function to avoid workflow serialization issues
+
+import { UndecodableVideoError } from "../errors";
+import type { MediaMetadata } from "./metadata";
+import type { ContainerFormat } from "../../lib/container-detection";
+
+/**
+ * When to transcode the upload into a canonical proxy before analysis
+ * - "auto": only when the container or codec is one ffmpeg frame seeking handles poorly
+ * - "always": every upload (slowest, most predictable)
+ * - "never": analyze the original as-is
+ */
+export type NormalizeMode = "auto" | "always" | "never";
+
+// Containers and codecs that extract reliably as-is
+const SUPPORTED_CONTAINERS: ContainerFormat[] = ["mp4", "mov", "webm", "mkv"];
+const SUPPORTED_VIDEO_CODECS = ["h264", "hevc", "vp8", "vp9", "av1", "mpeg4"];
+
+/**
+ * Decide whether an upload needs a canonical proxy
+ * @returns Human-readable reason, or null if the original can be used directly
+ */
+export function normalizationReason(media: MediaMetadata, mode: NormalizeMode): string | null {
+  if (mode === "never") return null;
+  if (mode === "always") return "normalization requested for every upload";
+
+  if (!media.format || !SUPPORTED_CONTAINERS.includes(media.format)) {
+    return `unsupported container (${media.format ?? media.container ?? "unknown"})`;
+  }
+  if (!media.videoCodec || !SUPPORTED_VIDEO_CODECS.includes(media.videoCodec)) {
+    return `unsupported video codec (${media.videoCodec ?? "unknown"})`;
+  }
+
+  return null;
+}
+
+/**
+ * Transcode the upload into a canonical proxy: H.264/AAC MP4, yuv420p, at most 720p,
+ * with rotation baked into the pixels. Returns the proxy's blob URL.
+ */
+export async function normalizeVideoStep(videoUrl: string, filename: string): Promise<string> {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { readFile } = await import("fs/promises");
+  const { put } = await import("../../lib/blob-store");
+  const { downloadToTempFile, removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+
+  const videoPath = await downloadToTempFile(videoUrl, filename);
+  const proxyPath = `${videoPath}.proxy.mp4`;
+
+  try {
+    try {
+      // -2 keeps the width even (required by yuv420p) while preserving aspect ratio
+      await execAsync(
+        `ffmpeg -i "${videoPath}" -map 0:v:0 -map 0:a:0? ` +
+          `-vf "scale=-2:'min(720,ih)'" -c:v libx264 -preset veryfast -crf 23 -pix_fmt yuv420p ` +
+          `-c:a aac -b:a 128k -ac 2 -movflags +faststart "${proxyPath}"`,
+        { maxBuffer: 16 * 1024 * 1024 }
+      );
+    } catch (error) {
+      console.error(`Normalization failed for ${filename}:`, error);
+      throw new UndecodableVideoError(`${filename} could not be decoded by ffmpeg`);
+    }
+
+    const proxyName = `proxies/${filename.replace(/\.[^/.]+$/, "")}.mp4`;
+    const blob = await put(proxyName, await readFile(proxyPath), {
+      access: "public",
+      contentType: "video/mp4",
+      addRandomSuffix: true, // Prevent overwrite errors on retry
+    });
+
+    return blob.url;
+  } finally {
+    await removeTempFiles(videoPath, proxyPath);
+  }
+}
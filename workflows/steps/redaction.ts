@@ -0,0 +1,190 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the step function to avoid workflow serialization issues
+
+import type { IncidentSegment } from "./segments";
+
+/**
+ * What happens to the picture during a flagged segment
+ * - "blur": heavy box blur over the whole frame
+ * - "blackout": solid black frame
+ * - "cut": the segment is removed from the output (video and audio)
+ */
+export type RedactionAction = "blur" | "blackout" | "cut";
+
+// When a segment has several categories, the most destructive action wins
+const ACTION_STRENGTH: RedactionAction[] = ["blur", "blackout", "cut"];
+
+// Spoken categories that get the audio muted
+const PROFANITY_CATEGORIES = ["cursing", "strong_language", "extreme_profanity"];
+
+export interface RedactionOptions {
+  enabled: boolean;
+  defaultAction: RedactionAction; // For categories without an entry in `actions`
+  actions: Partial<Record<string, RedactionAction>>; // Per category label, e.g. { gore: "cut" }
+  muteProfanity: boolean; // Silence spoken-profanity ranges from the transcript
+  paddingSeconds: number; // Widen every range, since sampled boundaries are approximate
+}
+
+export interface RedactionRange {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface RedactionPlan {
+  blur: RedactionRange[];
+  blackout: RedactionRange[];
+  cut: RedactionRange[];
+  mute: RedactionRange[];
+}
+
+function mergeRanges(ranges: RedactionRange[]): RedactionRange[] {
+  const merged: RedactionRange[] = [];
+
+  for (const range of [...ranges].sort((a, b) => a.startSeconds - b.startSeconds)) {
+    const last = merged[merged.length - 1];
+    if (last && range.startSeconds <= last.endSeconds) {
+      last.endSeconds = Math.max(last.endSeconds, range.endSeconds);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Decide what to do with each flagged segment
+ * Frame segments get a picture action; audio segments with profanity get muted
+ */
+export function planRedaction(
+  segments: Pick<IncidentSegment, "source" | "startTimestamp" | "endTimestamp" | "categories">[],
+  options: RedactionOptions,
+  durationSeconds: number | null
+): RedactionPlan {
+  const plan: RedactionPlan = { blur: [], blackout: [], cut: [], mute: [] };
+
+  const padded = (segment: { startTimestamp: number; endTimestamp: number }): RedactionRange => ({
+    startSeconds: Math.max(0, segment.startTimestamp - options.paddingSeconds),
+    endSeconds: Math.min(
+      segment.endTimestamp + options.paddingSeconds,
+      durationSeconds ?? Number.POSITIVE_INFINITY
+    ),
+  });
+
+  for (const segment of segments) {
+    const categories = segment.categories.split(", ");
+
+    if (segment.source === "audio") {
+      if (options.muteProfanity && categories.some((category) => PROFANITY_CATEGORIES.includes(category))) {
+        plan.mute.push(padded(segment));
+      }
+      continue;
+    }
+
+    const action = categories
+      .map((category) => options.actions[category] ?? options.defaultAction)
+      .reduce((strongest, candidate) =>
+        ACTION_STRENGTH.indexOf(candidate) > ACTION_STRENGTH.indexOf(strongest) ? candidate : strongest
+      );
+
+    plan[action].push(padded(segment));
+  }
+
+  return {
+    blur: mergeRanges(plan.blur),
+    blackout: mergeRanges(plan.blackout),
+    cut: mergeRanges(plan.cut),
+    mute: mergeRanges(plan.mute),
+  };
+}
+
+export function isEmptyRedactionPlan(plan: RedactionPlan): boolean {
+  return !plan.blur.length && !plan.blackout.length && !plan.cut.length && !plan.mute.length;
+}
+
+// ffmpeg timeline expression that is true inside any of the ranges (always used inside single quotes)
+function rangeExpression(ranges: RedactionRange[]): string {
+  return ranges.map((range) => `between(t,${range.startSeconds},${range.endSeconds})`).join("+");
+}
+
+/**
+ * Build the ffmpeg command that renders the redacted video
+ *
+ * Blur, blackout and mute are applied first, against the original timeline;
+ * cuts come last and re-time what is left so video and audio stay in sync.
+ */
+export function buildRedactionCommand(
+  inputPath: string,
+  outputPath: string,
+  plan: RedactionPlan,
+  hasAudio: boolean
+): string {
+  const video: string[] = [];
+  const audio: string[] = [];
+
+  if (plan.blur.length) {
+    video.push(`boxblur=luma_radius=min(w\\,h)/16:luma_power=3:enable='${rangeExpression(plan.blur)}'`);
+  }
+  if (plan.blackout.length) {
+    video.push(`drawbox=x=0:y=0:w=iw:h=ih:color=black:t=fill:enable='${rangeExpression(plan.blackout)}'`);
+  }
+  if (plan.mute.length) {
+    audio.push(`volume=volume=0:enable='${rangeExpression(plan.mute)}'`);
+  }
+  if (plan.cut.length) {
+    video.push(`select='not(${rangeExpression(plan.cut)})'`, "setpts=N/FRAME_RATE/TB");
+    audio.push(`aselect='not(${rangeExpression(plan.cut)})'`, "asetpts=N/SR/TB");
+  }
+
+  return [
+    `ffmpeg -i "${inputPath}"`,
+    `-map 0:v:0 -vf "${video.join(",") || "null"}"`,
+    hasAudio ? `-map 0:a:0 -af "${audio.join(",") || "anull"}" -c:a aac -b:a 160k` : "",
+    `-c:v libx264 -preset veryfast -crf 20 -pix_fmt yuv420p -movflags +faststart "${outputPath}"`,
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Render the redacted deliverable and upload it
+ * @returns Blob URL of the redacted MP4
+ */
+export async function renderRedactedVideoStep(
+  videoUrl: string,
+  filename: string,
+  plan: RedactionPlan,
+  hasAudio: boolean
+): Promise<string> {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { createReadStream } = await import("fs");
+  const { put } = await import("../../lib/blob-store");
+  const { downloadToTempFile, removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+
+  const videoPath = await downloadToTempFile(videoUrl, filename);
+  const outputPath = `${videoPath}.redacted.mp4`;
+
+  try {
+    await execAsync(buildRedactionCommand(videoPath, outputPath, plan, hasAudio));
+
+    // Full-length deliverable - stream it up in parts rather than reading it into memory
+    const blob = await put(
+      `redacted/${filename.replace(/\.[^/.]+$/, "")}-redacted.mp4`,
+      createReadStream(outputPath),
+      {
+        access: "public",
+        contentType: "video/mp4",
+        addRandomSuffix: true, // Prevent overwrite errors on retry
+        multipart: true,
+      }
+    );
+
+    return blob.url;
+  } finally {
+    await removeTempFiles(videoPath, outputPath);
+  }
+}
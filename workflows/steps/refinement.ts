@@ -0,0 +1,109 @@
+// No top-level imports of Node.js modules
+// Pure helpers for pinning down where flagged content starts and ends - safe to import from workflow and client code
+
+export interface RefinementOptions {
+  enabled: boolean;
+  fps: number; // Dense sampling rate inside each window
+  windowSeconds: number; // Search at most this far either side of a flagged sample
+  maxDenseFrames: number; // Budget for extra analyses per video
+}
+
+export const DEFAULT_REFINEMENT_OPTIONS: RefinementOptions = {
+  enabled: true,
+  fps: 2,
+  windowSeconds: 5,
+  maxDenseFrames: 120,
+};
+
+/**
+ * A stretch of the video to re-sample densely
+ */
+export interface RefinementWindow {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * A point on the timeline whose verdict is known (a sample or a dense frame)
+ */
+export interface TimelineVerdict {
+  timestamp: number;
+  flagged: boolean;
+}
+
+/**
+ * Windows to re-sample around each flagged sample
+ *
+ * A flagged sample's content can only start after the previous sample and end
+ * before the next one, so that gap (capped at windowSeconds) is all we search.
+ * Overlapping windows are merged so no stretch is extracted or analyzed twice.
+ *
+ * @param samples - Every sampled frame's verdict, in timeline order
+ * @param bounds - Part of the video that was analyzed
+ */
+export function buildRefinementWindows(
+  samples: TimelineVerdict[],
+  options: RefinementOptions,
+  bounds: { startSeconds: number; endSeconds: number | null }
+): RefinementWindow[] {
+  const windows: RefinementWindow[] = [];
+
+  samples.forEach((sample, index) => {
+    if (!sample.flagged) return;
+
+    const previous = samples[index - 1]?.timestamp ?? bounds.startSeconds;
+    const next = samples[index + 1]?.timestamp ?? bounds.endSeconds ?? sample.timestamp + options.windowSeconds;
+
+    windows.push({
+      startSeconds: Math.max(previous, sample.timestamp - options.windowSeconds, bounds.startSeconds),
+      endSeconds: Math.min(next, sample.timestamp + options.windowSeconds),
+    });
+  });
+
+  const merged: RefinementWindow[] = [];
+  for (const window of windows.sort((a, b) => a.startSeconds - b.startSeconds)) {
+    const last = merged[merged.length - 1];
+    if (last && window.startSeconds <= last.endSeconds) {
+      last.endSeconds = Math.max(last.endSeconds, window.endSeconds);
+    } else if (window.endSeconds > window.startSeconds) {
+      merged.push({ ...window });
+    }
+  }
+
+  // Spend the dense-frame budget on the earliest windows first
+  const kept: RefinementWindow[] = [];
+  let budget = options.maxDenseFrames;
+  for (const window of merged) {
+    const frames = Math.ceil((window.endSeconds - window.startSeconds) * options.fps);
+    if (frames > budget) break;
+    budget -= frames;
+    kept.push(window);
+  }
+
+  return kept;
+}
+
+/**
+ * Widen a flagged sample into the run of consecutive flagged points around it
+ * @param timeline - Sample and dense-frame verdicts, in any order
+ * @returns The first and last flagged timestamp of the run containing the sample
+ */
+export function flaggedRunBounds(
+  sampleTimestamp: number,
+  timeline: TimelineVerdict[]
+): { startTimestamp: number; endTimestamp: number } {
+  const points = [...timeline].sort((a, b) => a.timestamp - b.timestamp);
+  const position = points.findIndex((point) => point.timestamp === sampleTimestamp);
+
+  if (position === -1) {
+    return { startTimestamp: sampleTimestamp, endTimestamp: sampleTimestamp };
+  }
+
+  let first = position;
+  while (first > 0 && points[first - 1].flagged) first--;
+
+  let last = position;
+  while (last < points.length - 1 && points[last + 1].flagged) last++;
+
+  return { startTimestamp: points[first].timestamp, endTimestamp: points[last].timestamp };
+}
@@ -0,0 +1,47 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the helper to avoid workflow serialization issues
+
+// Each block of the pixelated variant covers this many source pixels per side
+const PIXELATE_BLOCK = 24;
+
+/**
+ * Build the ffmpeg filter that pixelates and then softens a screenshot
+ * Pixelating alone leaves hard edges that still read as shapes, the blur removes them
+ */
+export function buildBlurFilter(block = PIXELATE_BLOCK): string {
+  return [
+    `scale=max(2\\,iw/${block}):max(2\\,ih/${block}):flags=area`,
+    `scale=iw*${block}:ih*${block}:flags=neighbor`,
+    `gblur=sigma=${block / 2}`,
+  ].join(",");
+}
+
+/**
+ * Render a reviewer-safe variant of a flagged screenshot
+ * Note: Not a step - called from within processOneFrame
+ * @returns The blurred JPEG, or null if ffmpeg failed (the raw screenshot is still stored)
+ */
+export async function blurScreenshot(buffer: Buffer, filename: string): Promise<Buffer | null> {
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { readFile, writeFile } = await import("fs/promises");
+  const path = await import("path");
+  const os = await import("os");
+  const { removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+
+  const inputPath = path.join(os.tmpdir(), `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${filename}`);
+  const outputPath = `${inputPath}.blurred.jpg`;
+
+  try {
+    await writeFile(inputPath, new Uint8Array(buffer));
+    await execAsync(`ffmpeg -i "${inputPath}" -vf "${buildBlurFilter()}" -q:v 4 "${outputPath}"`);
+    return await readFile(outputPath);
+  } catch (error) {
+    console.error("Error blurring screenshot:", error);
+    return null;
+  } finally {
+    await removeTempFiles(inputPath, outputPath);
+  }
+}
@@ -0,0 +1,153 @@
+// No top-level imports of Node.js modules
+// Pure helpers that merge per-sample incidents into time ranges - safe to import from workflow and client code
+
+type Rating = "safe" | "16+" | "18+";
+
+const RATING_ORDER: Rating[] = ["safe", "16+", "18+"];
+
+/**
+ * Speech incidents closer together than this are treated as one stretch of dialogue
+ */
+export const AUDIO_SEGMENT_GAP_SECONDS = 2;
+
+/**
+ * The fields of an incident that segmenting looks at
+ */
+export interface SegmentableIncident {
+  source?: "frame" | "audio";
+  timestamp: number;
+  startTimestamp?: number; // Refined start (frames) - falls back to timestamp
+  endTimestamp?: number; // Refined end (frames) or end of speech (audio)
+  confidence: number;
+  categories: string;
+  rating?: string;
+  screenshotUrl: string;
+  blurredScreenshotUrl?: string;
+}
+
+/**
+ * A continuous stretch of offending content, built from one or more incidents
+ */
+export interface IncidentSegment {
+  source: "frame" | "audio";
+  startTimestamp: number;
+  endTimestamp: number;
+  rating: Rating; // Peak rating across the members
+  confidence: number; // Highest member confidence
+  categories: string; // Union of member categories, comma-separated
+  screenshotUrl: string; // Representative member: peak rating, then highest confidence
+  blurredScreenshotUrl?: string; // Reviewer-safe variant of the representative screenshot
+  transcript?: string; // Member speech joined in order (audio segments)
+  memberIndices: number[]; // Positions of the members in the incidents array
+  clipUrl?: string; // Evidence clip around the segment, when one was cut
+}
+
+function toRating(rating?: string): Rating {
+  return RATING_ORDER.includes(rating as Rating) ? (rating as Rating) : "safe";
+}
+
+function incidentStart(incident: SegmentableIncident): number {
+  return incident.startTimestamp ?? incident.timestamp;
+}
+
+function incidentEnd(incident: SegmentableIncident): number {
+  return Math.max(incident.endTimestamp ?? incident.timestamp, incidentStart(incident));
+}
+
+/**
+ * Merge consecutive flagged incidents into segments
+ *
+ * Frame incidents join the current segment unless a sample that came back clean
+ * lies between them, so a 2-minute scene is one segment however often it was
+ * sampled. Audio incidents join when they overlap or are at most
+ * AUDIO_SEGMENT_GAP_SECONDS apart. Frames and audio are never mixed.
+ *
+ * @param incidents - Flagged incidents (frame and audio), in any order
+ * @param cleanTimestamps - Timestamps of analyzed frames that were not flagged
+ * @returns Segments ordered by start time
+ */
+export function buildIncidentSegments(
+  incidents: Array<SegmentableIncident & { transcript?: string }>,
+  cleanTimestamps: number[] = []
+): IncidentSegment[] {
+  const segments: IncidentSegment[] = [];
+  const clean = [...cleanTimestamps].sort((a, b) => a - b);
+
+  const separatedByCleanFrame = (from: number, to: number) =>
+    clean.some((timestamp) => timestamp > from && timestamp < to);
+
+  for (const source of ["frame", "audio"] as const) {
+    const members = incidents
+      .map((incident, index) => ({ incident, index }))
+      .filter(({ incident }) => (incident.source ?? "frame") === source)
+      .sort((a, b) => incidentStart(a.incident) - incidentStart(b.incident));
+
+    let current: { segment: IncidentSegment; peak: SegmentableIncident } | null = null;
+
+    for (const { incident, index } of members) {
+      const start = incidentStart(incident);
+      const end = incidentEnd(incident);
+
+      const joins = current !== null && (
+        source === "frame"
+          ? !separatedByCleanFrame(current.segment.endTimestamp, start)
+          : start - current.segment.endTimestamp <= AUDIO_SEGMENT_GAP_SECONDS
+      );
+
+      if (!current || !joins) {
+        current = {
+          segment: {
+            source,
+            startTimestamp: start,
+            endTimestamp: end,
+            rating: toRating(incident.rating),
+            confidence: incident.confidence,
+            categories: incident.categories,
+            screenshotUrl: incident.screenshotUrl,
+            blurredScreenshotUrl: incident.blurredScreenshotUrl,
+            transcript: incident.transcript,
+            memberIndices: [index],
+          },
+          peak: incident,
+        };
+        segments.push(current.segment);
+        continue;
+      }
+
+      const { segment } = current;
+      segment.endTimestamp = Math.max(segment.endTimestamp, end);
+      segment.memberIndices.push(index);
+      segment.confidence = Math.max(segment.confidence, incident.confidence);
+      const categories = new Set([
+        ...segment.categories.split(", "),
+        ...incident.categories.split(", "),
+      ]);
+      if (categories.size > 1) categories.delete("flagged"); // Placeholder when nothing specific was detected
+      segment.categories = [...categories].join(", ");
+
+      if (incident.transcript) {
+        segment.transcript = segment.transcript
+          ? `${segment.transcript} ${incident.transcript}`
+          : incident.transcript;
+      }
+
+      // Prefer the most severe member (with a screenshot) as the representative
+      const rating = toRating(incident.rating);
+      const peakRating = toRating(current.peak.rating);
+      const outranks =
+        RATING_ORDER.indexOf(rating) > RATING_ORDER.indexOf(peakRating) ||
+        (rating === peakRating && incident.confidence > current.peak.confidence);
+
+      if (incident.screenshotUrl && (outranks || !segment.screenshotUrl)) {
+        current.peak = incident;
+        segment.screenshotUrl = incident.screenshotUrl;
+        segment.blurredScreenshotUrl = incident.blurredScreenshotUrl;
+      }
+      if (RATING_ORDER.indexOf(rating) > RATING_ORDER.indexOf(segment.rating)) {
+        segment.rating = rating;
+      }
+    }
+  }
+
+  return segments.sort((a, b) => a.startTimestamp - b.startTimestamp);
+}
@@ -0,0 +1,79 @@
+// No top-level imports of Node.js modules
+// Kept apart from the step modules the workflow imports - it runs ffmpeg outside a step function
+
+import {
+  buildStoryboardCommand,
+  buildStoryboardVtt,
+  type Storyboard,
+  type StoryboardPlan,
+} from "./storyboard";
+import { buildBlurFilter } from "./screenshot-variants";
+
+// Divides both tile sides, so pixelating a tile never changes its size
+const STORYBOARD_BLUR_BLOCK = 10;
+
+/**
+ * Render a storyboard sprite sheet of the whole video, its blurred twin and its WebVTT index, and upload them
+ * Note: Not a step - called from within the extractFrames steps, which already have the video on disk
+ * Failures are logged and return null - a missing storyboard never costs us the frames
+ */
+export async function renderStoryboard(
+  videoPath: string,
+  filename: string,
+  plan: StoryboardPlan,
+  durationSeconds: number
+): Promise<Storyboard | null> {
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { readFile } = await import("fs/promises");
+  const { put } = await import("../../lib/blob-store");
+  const { removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+  const spritePath = `${videoPath}.storyboard.jpg`;
+  const blurredSpritePath = `${videoPath}.storyboard-blurred.jpg`;
+  const baseName = filename.replace(/\.[^/.]+$/, "");
+
+  try {
+    await execAsync(
+      buildStoryboardCommand(videoPath, spritePath, plan, {
+        outputPath: blurredSpritePath,
+        filter: buildBlurFilter(STORYBOARD_BLUR_BLOCK),
+      })
+    );
+
+    const sprite = await put(`storyboards/${baseName}.jpg`, await readFile(spritePath), {
+      access: "public",
+      contentType: "image/jpeg",
+      addRandomSuffix: true, // Prevent overwrite errors on retry
+    });
+    const blurredSprite = await put(`storyboards/${baseName}-blurred.jpg`, await readFile(blurredSpritePath), {
+      access: "public",
+      contentType: "image/jpeg",
+      addRandomSuffix: true,
+    });
+    const vtt = await put(
+      `storyboards/${baseName}.vtt`,
+      buildStoryboardVtt(plan, sprite.url, durationSeconds),
+      {
+        access: "public",
+        contentType: "text/vtt",
+        addRandomSuffix: true,
+      }
+    );
+
+    return {
+      ...plan,
+      spriteUrl: sprite.url,
+      blurredSpriteUrl: blurredSprite.url,
+      vttUrl: vtt.url,
+      durationSeconds,
+    };
+  } catch (error) {
+    console.error("Error rendering storyboard:", error);
+    return null;
+  } finally {
+    await removeTempFiles(spritePath, blurredSpritePath);
+  }
+}
@@ -0,0 +1,133 @@
+// No top-level imports of Node.js modules
+// Pure helpers for the storyboard sprite sheet - safe to import from workflow and client code
+
+export const STORYBOARD_TILE_WIDTH = 160;
+export const STORYBOARD_TILE_HEIGHT = 90;
+const STORYBOARD_MAX_TILES = 100;
+const STORYBOARD_MIN_INTERVAL_SECONDS = 2;
+const STORYBOARD_COLUMNS = 10;
+
+/**
+ * Layout of the sprite sheet, decided before ffmpeg runs
+ */
+export interface StoryboardPlan {
+  intervalSeconds: number; // One tile per interval
+  count: number; // Number of tiles
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+/**
+ * A rendered storyboard, stored with the video record so the timeline
+ * can be scrubbed after the original video is deleted
+ */
+export interface Storyboard extends StoryboardPlan {
+  spriteUrl: string; // JPEG sprite sheet, tiles left to right, top to bottom
+  blurredSpriteUrl?: string; // Same sheet with every tile pixelated, shown over flagged segments (missing on older records)
+  vttUrl: string; // WebVTT thumbnail index (`sprite.jpg#xywh=x,y,w,h` cues) for video players
+  durationSeconds: number;
+}
+
+/**
+ * Spread at most 100 tiles evenly over the whole video
+ * @returns The plan, or null when the duration is unknown
+ */
+export function planStoryboard(durationSeconds: number | null): StoryboardPlan | null {
+  if (!durationSeconds || durationSeconds <= 0) return null;
+
+  const intervalSeconds = Math.max(
+    STORYBOARD_MIN_INTERVAL_SECONDS,
+    Math.ceil(durationSeconds / STORYBOARD_MAX_TILES)
+  );
+  const count = Math.max(1, Math.ceil(durationSeconds / intervalSeconds));
+  const columns = Math.min(STORYBOARD_COLUMNS, count);
+
+  return {
+    intervalSeconds,
+    count,
+    columns,
+    rows: Math.ceil(count / columns),
+    tileWidth: STORYBOARD_TILE_WIDTH,
+    tileHeight: STORYBOARD_TILE_HEIGHT,
+  };
+}
+
+/**
+ * Build the ffmpeg command that renders the whole video into a single sprite sheet
+ * Tiles are letterboxed to a fixed size so every cue can share the same geometry
+ * @param blurred - Also write a reviewer-safe sheet, with `filter` applied to each tile before tiling
+ */
+export function buildStoryboardCommand(
+  videoPath: string,
+  outputPath: string,
+  plan: StoryboardPlan,
+  blurred?: { outputPath: string; filter: string }
+): string {
+  const { tileWidth: w, tileHeight: h } = plan;
+  const tiles = [
+    `fps=1/${plan.intervalSeconds}`,
+    `scale=${w}:${h}:force_original_aspect_ratio=decrease`,
+    `pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2`,
+  ].join(",");
+  const tile = `tile=${plan.columns}x${plan.rows}`;
+
+  if (!blurred) {
+    return `ffmpeg -i "${videoPath}" -vf "${tiles},${tile}" -frames:v 1 -q:v 5 "${outputPath}"`;
+  }
+
+  return [
+    `ffmpeg -i "${videoPath}"`,
+    `-filter_complex "[0:v]${tiles},split=2[raw][soft];[raw]${tile}[sprite];[soft]${blurred.filter},${tile}[blurred]"`,
+    `-map "[sprite]" -frames:v 1 -q:v 5 "${outputPath}"`,
+    `-map "[blurred]" -frames:v 1 -q:v 5 "${blurred.outputPath}"`,
+  ].join(" ");
+}
+
+/**
+ * Position of the tile covering `seconds`, in pixels from the sprite's top-left corner
+ */
+export function storyboardTileAt(
+  plan: StoryboardPlan,
+  seconds: number
+): { x: number; y: number; index: number } {
+  const index = Math.min(plan.count - 1, Math.max(0, Math.floor(seconds / plan.intervalSeconds)));
+
+  return {
+    x: (index % plan.columns) * plan.tileWidth,
+    y: Math.floor(index / plan.columns) * plan.tileHeight,
+    index,
+  };
+}
+
+function formatVttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const secs = Math.floor((ms % 60_000) / 1000);
+  const millis = ms % 1000;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:` +
+    `${String(secs).padStart(2, "0")}.${String(millis).padStart(3, "0")}`;
+}
+
+/**
+ * WebVTT thumbnail index - one cue per tile pointing into the sprite with a media fragment
+ */
+export function buildStoryboardVtt(
+  plan: StoryboardPlan,
+  spriteUrl: string,
+  durationSeconds: number
+): string {
+  const cues = Array.from({ length: plan.count }, (_, index) => {
+    const start = index * plan.intervalSeconds;
+    const end = Math.min(durationSeconds, start + plan.intervalSeconds);
+    const { x, y } = storyboardTileAt(plan, start);
+
+    return `${formatVttTime(start)} --> ${formatVttTime(end)}\n` +
+      `${spriteUrl}#xywh=${x},${y},${plan.tileWidth},${plan.tileHeight}`;
+  });
+
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+}
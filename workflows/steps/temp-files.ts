@@ -0,0 +1,51 @@
+// No top-level imports of Node.js modules
+// Dynamic imports are used inside the helpers to avoid workflow serialization issues
+
+/**
+ * Download a blob to a fresh temp file and verify it landed completely
+ * Note: Not a step - called from within steps that need the video on disk
+ * @returns Path of the downloaded file
+ */
+export async function downloadToTempFile(url: string, filename: string) {
+  const { stat } = await import("fs/promises");
+  const { createWriteStream } = await import("fs");
+  const { Readable } = await import("stream");
+  const { pipeline } = await import("stream/promises");
+  const path = await import("path");
+  const os = await import("os");
+
+  const response = await fetch(url);
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download video: ${response.statusText}`);
+  }
+
+  const filePath = path.join(os.tmpdir(), `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${filename}`);
+
+  // Stream to disk - multi-GB uploads must never be held in memory
+  await pipeline(
+    Readable.fromWeb(response.body as import("stream/web").ReadableStream),
+    createWriteStream(filePath)
+  );
+
+  // Verify file was written correctly - ffmpeg fails with "moov atom not found" on partial files
+  const stats = await stat(filePath);
+  const expectedSize = Number(response.headers.get("content-length"));
+  console.log(`Video downloaded: ${stats.size} bytes (expected: ${expectedSize || "unknown"})`);
+
+  if (expectedSize && stats.size !== expectedSize) {
+    throw new Error(`File size mismatch: wrote ${stats.size} bytes, expected ${expectedSize}`);
+  }
+
+  return filePath;
+}
+
+/**
+ * Remove temp files, ignoring ones that are already gone
+ * Note: Not a step - cleanup helper for use inside steps
+ */
+export async function removeTempFiles(...filePaths: string[]) {
+  const { rm } = await import("fs/promises");
+
+  await Promise.all(filePaths.map((filePath) => rm(filePath, { force: true, recursive: true })));
+}
@@ -1,57 +1,62 @@
 // No top-level imports of Node.js modules
 // Dynamic imports are used inside the step function to avoid workflow serialization issues
 
-export async function extractFrames(videoUrl: string, filename: string) {
+import {
+  DEFAULT_SAMPLING_OPTIONS,
+  buildExtractFramesCommand,
+  parseFrameTimestamps,
+  frameTimestampAt,
+  type SamplingOptions,
+  type FrameLimits,
+} from "./frame-sampling";
+import { frameHashAt } from "./frame-dedup";
+import type { RefinementWindow } from "./refinement";
+import type { StoryboardPlan } from "./storyboard";
+
+export async function extractFrames(
+  videoUrl: string,
+  filename: string,
+  sampling: SamplingOptions = DEFAULT_SAMPLING_OPTIONS,
+  limits: FrameLimits = {},
+  storyboard: { plan: StoryboardPlan; durationSeconds: number } | null = null
+) {
   "use step";
 
   // Dynamic imports - only loaded at runtime, not during workflow serialization
   const { exec } = await import("child_process");
   const { promisify } = await import("util");
-  const { writeFile, unlink, readFile, stat } = await import("fs/promises");
+  const { unlink, readFile } = await import("fs/promises");
   const path = await import("path");
   const os = await import("os");
   const { uploadFrameToBlob } = await import("./blob-storage");
+  const { downloadToTempFile } = await import("./temp-files");
+  const { renderStoryboard } = await import("./storyboard-render");
 
   const execAsync = promisify(exec);
 
   const tmpDir = os.tmpdir();
   const videoId = Date.now();
-  const videoPath = path.join(tmpDir, `${videoId}-${filename}`);
   const framesDir = path.join(tmpDir, `frames-${videoId}`);
+  const hashPath = `${framesDir}.hashes.raw`; // 9x8 grayscale thumbnails for dedup
 
   try {
-    // Download video from blob URL
-    const response = await fetch(videoUrl);
-
-    if (!response.ok) {
-      throw new Error(`Failed to download video: ${response.statusText}`);
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    let videoBuffer = Buffer.from(arrayBuffer);
-
-    // Write file with proper error handling
-    await writeFile(videoPath, Buffer.from(videoBuffer));
-
-    // Verify file was written correctly
-    const stats = await stat(videoPath);
-    console.log(`Video downloaded: ${stats.size} bytes (expected: ${videoBuffer.length})`);
-
-    if (stats.size !== videoBuffer.length) {
-      throw new Error(`File size mismatch: wrote ${stats.size} bytes, expected ${videoBuffer.length}`);
-    }
-
-    // Clear video buffer from memory after writing to disk
-    videoBuffer = null as any;
+    // Stream video from blob URL to disk (verifies the size before ffmpeg touches it)
+    const videoPath = await downloadToTempFile(videoUrl, filename);
 
     // Create frames directory
     await execAsync(`mkdir -p "${framesDir}"`);
 
-    // Extract frames using ffmpeg (1 frame every 5 seconds)
+    // Extract frames using ffmpeg (scene cuts or fixed interval, see frame-sampling.ts)
+    // showinfo logs one line per frame to stderr, so give it room on long videos
     const outputPattern = path.join(framesDir, "frame-%04d.jpg");
-    await execAsync(
-      `ffmpeg -i "${videoPath}" -vf fps=1/5 "${outputPattern}"`
+    const { stderr: ffmpegLog } = await execAsync(
+      buildExtractFramesCommand(videoPath, outputPattern, sampling, limits, hashPath),
+      { maxBuffer: 64 * 1024 * 1024 }
     );
+    const timestamps = parseFrameTimestamps(ffmpegLog);
+
+    // Perceptual hashes are best-effort - a missing file just disables dedup for this video
+    const hashPixels = await readFile(hashPath).catch(() => null);
 
     // Get list of frame files
     const { stdout } = await execAsync(`ls "${framesDir}"`);
@@ -65,7 +70,7 @@ export async function extractFrames(videoUrl: string, filename: string) {
 
       // Read frame buffer
       const buffer = await readFile(framePath);
-      const timestamp = index * 5; // seconds
+      const timestamp = frameTimestampAt(timestamps, index, sampling, limits); // seconds (real pts)
 
       // Upload frame to blob storage immediately (reduces memory usage)
       const frameUrl = await uploadFrameToBlob(buffer, frameFile);
@@ -77,16 +82,84 @@ export async function extractFrames(videoUrl: string, filename: string) {
         url: frameUrl,  // Store URL instead of buffer
         timestamp,
         filename: frameFile,
+        hash: frameHashAt(hashPixels, index),
       });
     }
 
-    // Clean up video file and frames directory
+    // Storyboard of the whole video, while it is still on disk
+    const renderedStoryboard = storyboard
+      ? await renderStoryboard(videoPath, filename, storyboard.plan, storyboard.durationSeconds)
+      : null;
+
+    // Clean up video file, hash thumbnails and frames directory
     await unlink(videoPath);
+    if (hashPixels) await unlink(hashPath);
     await execAsync(`rmdir "${framesDir}"`);
 
-    return frames;
+    return { frames, storyboard: renderedStoryboard };
   } catch (error) {
     console.error("Error extracting frames:", error);
     throw error;
   }
 }
+
+/**
+ * Extract frames at `fps` inside each window (one download, one ffmpeg run per window)
+ */
+export async function extractRefinementFrames(
+  videoUrl: string,
+  filename: string,
+  windows: RefinementWindow[],
+  fps: number
+) {
+  "use step";
+
+  // Dynamic imports - only loaded at runtime, not during workflow serialization
+  const { exec } = await import("child_process");
+  const { promisify } = await import("util");
+  const { readFile, readdir, mkdir, rm } = await import("fs/promises");
+  const path = await import("path");
+  const { downloadToTempFile, removeTempFiles } = await import("./temp-files");
+
+  const execAsync = promisify(exec);
+
+  const videoPath = await downloadToTempFile(videoUrl, filename);
+  const sampling = { ...DEFAULT_SAMPLING_OPTIONS, mode: "interval" as const, intervalSeconds: 1 / fps };
+  const frames: { buffer: Buffer; timestamp: number; filename: string }[] = [];
+
+  try {
+    for (const [windowIndex, window] of windows.entries()) {
+      const framesDir = `${videoPath}.refine-${windowIndex}`;
+      await mkdir(framesDir, { recursive: true });
+
+      try {
+        const { stderr: ffmpegLog } = await execAsync(
+          buildExtractFramesCommand(videoPath, path.join(framesDir, "dense-%04d.jpg"), sampling, {
+            startSeconds: window.startSeconds,
+            endSeconds: window.endSeconds,
+          }),
+          { maxBuffer: 16 * 1024 * 1024 }
+        );
+        const timestamps = parseFrameTimestamps(ffmpegLog);
+        const frameFiles = (await readdir(framesDir)).sort();
+
+        for (const [index, frameFile] of frameFiles.entries()) {
+          // Frames without a reported pts can't be placed on the timeline - skip them
+          if (typeof timestamps[index] !== "number") continue;
+
+          frames.push({
+            buffer: await readFile(path.join(framesDir, frameFile)),
+            timestamp: timestamps[index],
+            filename: `w${windowIndex}-${frameFile}`,
+          });
+        }
+      } finally {
+        await rm(framesDir, { recursive: true, force: true });
+      }
+    }
+
+    return frames;
+  } finally {
+    await removeTempFiles(videoPath);
+  }
+}